@@ -207,7 +207,11 @@ export default defineConfig({
           items: [
             { text: 'use()', link: '/docs/core/use' },
             { text: 'sync()', link: '/docs/core/sync' },
+            { text: 'createStore()', link: '/docs/core/store' },
+            { text: 'createMachine()', link: '/docs/core/machine' },
+            { text: 'useForm()', link: '/docs/core/form' },
             { text: 'useRef()', link: '/docs/core/ref' },
+            { text: 'onMount()', link: '/docs/core/lifecycle' },
             { text: 'Context', link: '/docs/core/context' },
             { text: 'Useable', link: '/docs/core/useable' }
           ]
@@ -300,7 +304,11 @@ export default defineConfig({
           items: [
             { text: 'use()', link: '/docs/core/use' },
             { text: 'sync()', link: '/docs/core/sync' },
+            { text: 'createStore()', link: '/docs/core/store' },
+            { text: 'createMachine()', link: '/docs/core/machine' },
+            { text: 'useForm()', link: '/docs/core/form' },
             { text: 'useRef()', link: '/docs/core/ref' },
+            { text: 'onMount()', link: '/docs/core/lifecycle' },
             { text: 'Context', link: '/docs/core/context' },
             { text: 'Useable', link: '/docs/core/useable' }
           ]
@@ -382,7 +390,11 @@ export default defineConfig({
           items: [
             { text: 'use()', link: '/docs/core/use' },
             { text: 'sync()', link: '/docs/core/sync' },
+            { text: 'createStore()', link: '/docs/core/store' },
+            { text: 'createMachine()', link: '/docs/core/machine' },
+            { text: 'useForm()', link: '/docs/core/form' },
             { text: 'useRef()', link: '/docs/core/ref' },
+            { text: 'onMount()', link: '/docs/core/lifecycle' },
             { text: 'Context', link: '/docs/core/context' },
             { text: 'Useable', link: '/docs/core/useable' }
           ]
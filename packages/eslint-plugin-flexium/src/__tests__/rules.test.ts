@@ -1,6 +1,14 @@
 import { describe, it, expect } from 'vitest';
+import { RuleTester, type Rule } from 'eslint';
 import { rules, configs } from '../index';
 
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  parserOptions: { ecmaVersion: 2022, sourceType: 'module' },
+});
+
 describe('eslint-plugin-flexium', () => {
   it('should export rules', () => {
     expect(rules).toBeDefined();
@@ -63,3 +71,50 @@ describe('eslint-plugin-flexium', () => {
     expect(strict.rules['flexium/no-state-comparison']).toBe('error');
   });
 });
+
+describe('untracked reads', () => {
+  ruleTester.run(
+    'effect-dependencies-complete',
+    rules['effect-dependencies-complete'] as unknown as Rule.RuleModule,
+    {
+      valid: [
+        `const [count] = use(0);
+         const [name] = use('');
+         use(() => { console.log(count, name) }, [count, name]);`,
+        `const [count] = use(0);
+         const [name] = use('');
+         use(() => { console.log(count, untrack(() => name)) }, [count]);`,
+        `const total = computed(() => 1);
+         use(() => { console.log(total.peek()) }, []);`,
+        `const [count] = use(0);
+         use(() => { const count = 1; console.log(count) }, []);`,
+      ],
+      invalid: [
+        {
+          code: `const [count] = use(0);
+                 const [name] = use('');
+                 use(() => { console.log(count, name) }, [count]);`,
+          errors: [{ messageId: 'incompleteDependencies', data: { name: 'name' } }],
+        },
+      ],
+    },
+  );
+
+  ruleTester.run(
+    'no-missing-dependencies',
+    rules['no-missing-dependencies'] as unknown as Rule.RuleModule,
+    {
+      valid: [
+        `const [count] = use(0);
+         const [doubled] = use(() => untrack(() => count) * 2, [count]);`,
+        `const total = computed(() => untrack(() => total.peek()));`,
+      ],
+      invalid: [
+        {
+          code: `const total = computed(() => total + 1);`,
+          errors: [{ messageId: 'missingDependency', data: { name: 'total' } }],
+        },
+      ],
+    },
+  );
+});
@@ -1,4 +1,9 @@
 import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  SIGNAL_FUNCTIONS,
+  isPeekRead,
+  isUntrackCall,
+} from "../utils/ast-helpers";
 
 type MessageIds = "incompleteDependencies";
 type Options = [];
@@ -17,13 +22,12 @@ const rule: TSESLint.RuleModule<MessageIds, Options> = {
     schema: [],
   },
   create(context) {
+    const sourceCode = context.getSourceCode();
+
     return {
       CallExpression(node: TSESTree.CallExpression) {
         // Check if this is a use() effect call
-        if (
-          node.callee.type !== "Identifier" ||
-          node.callee.name !== "use"
-        ) {
+        if (node.callee.type !== "Identifier" || node.callee.name !== "use") {
           return;
         }
 
@@ -31,7 +35,8 @@ const rule: TSESLint.RuleModule<MessageIds, Options> = {
         if (node.arguments.length < 2) return;
 
         const callback = node.arguments[0];
-        if (!callback) return;
+        const depsArray = node.arguments[1];
+        if (!callback || depsArray.type !== "ArrayExpression") return;
 
         if (
           callback.type !== "ArrowFunctionExpression" &&
@@ -40,91 +45,92 @@ const rule: TSESLint.RuleModule<MessageIds, Options> = {
           return;
         }
 
-        // Track signals accessed in the effect
-        const accessedSignals = new Set<string>();
-        const declaredSignals = new Set<string>();
-
-        // Find signals declared in outer scopes
-        const ancestors = context.getAncestors();
-        for (const ancestor of ancestors) {
-          if (ancestor.type === "VariableDeclarator") {
-            if (
-              ancestor.init?.type === "CallExpression" &&
-              ancestor.init.callee.type === "Identifier"
-            ) {
-              const calleeName = ancestor.init.callee.name;
-              if (
-                calleeName === "signal" ||
-                calleeName === "computed" ||
-                calleeName === "use"
-              ) {
-                if (ancestor.id.type === "Identifier") {
-                  declaredSignals.add(ancestor.id.name);
-                } else if (
-                  ancestor.id.type === "ArrayPattern" &&
-                  ancestor.id.elements[0]?.type === "Identifier"
-                ) {
-                  declaredSignals.add(ancestor.id.elements[0].name);
-                }
-              }
-            }
+        // Names listed in the deps array (`count` or `count.value`)
+        const listedDeps = new Set<string>();
+        for (const element of depsArray.elements) {
+          if (element?.type === "Identifier") {
+            listedDeps.add(element.name);
+          } else if (
+            element?.type === "MemberExpression" &&
+            element.object.type === "Identifier"
+          ) {
+            listedDeps.add(element.object.name);
           }
         }
 
-        // Find all signal accesses in the callback
-        function findSignalAccess(node: TSESTree.Node) {
-          // Check for .value access
-          if (
-            node.type === "MemberExpression" &&
-            node.property.type === "Identifier" &&
-            node.property.name === "value" &&
-            node.object.type === "Identifier" &&
-            declaredSignals.has(node.object.name)
-          ) {
-            accessedSignals.add(node.object.name);
-          }
+        // References the callback resolves outside itself, i.e. outer state
+        const callbackScope = sourceCode.scopeManager?.acquire(callback);
+        const missing = new Set<string>();
+
+        for (const reference of callbackScope?.through ?? []) {
+          const identifier = reference.identifier as TSESTree.Identifier;
+          const variable = reference.resolved;
 
-          // Check for signal() call
           if (
-            node.type === "CallExpression" &&
-            node.callee.type === "Identifier" &&
-            declaredSignals.has(node.callee.name) &&
-            node.arguments.length === 0
+            !variable ||
+            listedDeps.has(identifier.name) ||
+            !isReactiveDeclaration(variable, identifier.name) ||
+            isPeekRead(identifier) ||
+            isInsideUntrack(identifier, callback)
           ) {
-            accessedSignals.add(node.callee.name);
+            continue;
           }
 
-          // Recurse
-          for (const key in node) {
-            const child = (node as unknown as Record<string, unknown>)[key];
-            if (child && typeof child === "object") {
-              if (Array.isArray(child)) {
-                for (const item of child) {
-                  if (item && typeof item === "object" && "type" in item) {
-                    findSignalAccess(item as TSESTree.Node);
-                  }
-                }
-              } else if ("type" in child) {
-                findSignalAccess(child as TSESTree.Node);
-              }
-            }
-          }
+          missing.add(identifier.name);
         }
 
-        if (callback.body) {
-          findSignalAccess(callback.body);
+        for (const name of missing) {
+          context.report({
+            node: depsArray,
+            messageId: "incompleteDependencies",
+            data: { name },
+          });
         }
-
-        // This rule mainly ensures signals are being tracked by the reactive system
-        // The actual tracking happens automatically in Flexium, so we don't need
-        // to report missing dependencies explicitly here
-
-        // Report if accessed signals seem incomplete (this is a heuristic check)
-        // We mainly ensure signals are being tracked by the reactive system
-        // This rule is more about warning when patterns suggest missing tracking
       },
     };
   },
 };
 
+// State declared by signal()/computed() or as the value of a use() tuple
+function isReactiveDeclaration(
+  variable: TSESLint.Scope.Variable,
+  name: string,
+): boolean {
+  const def = variable.defs[0];
+  if (!def || def.node.type !== "VariableDeclarator") return false;
+
+  const declarator = def.node;
+  if (
+    declarator.init?.type !== "CallExpression" ||
+    declarator.init.callee.type !== "Identifier" ||
+    !SIGNAL_FUNCTIONS.includes(declarator.init.callee.name)
+  ) {
+    return false;
+  }
+
+  if (declarator.id.type === "Identifier") {
+    return declarator.id.name === name;
+  }
+  if (declarator.id.type === "ArrayPattern") {
+    const first = declarator.id.elements[0];
+    return first?.type === "Identifier" && first.name === name;
+  }
+  return false;
+}
+
+// Reads inside untrack() never become dependencies
+function isInsideUntrack(
+  node: TSESTree.Node,
+  boundary: TSESTree.Node,
+): boolean {
+  for (
+    let current = node.parent;
+    current && current !== boundary;
+    current = current.parent
+  ) {
+    if (isUntrackCall(current)) return true;
+  }
+  return false;
+}
+
 export default rule;
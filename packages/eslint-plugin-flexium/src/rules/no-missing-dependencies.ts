@@ -1,4 +1,9 @@
 import type { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import {
+  SIGNAL_READ_METHODS,
+  getChildNodes,
+  isUntrackCall,
+} from "../utils/ast-helpers";
 
 type MessageIds = "missingDependency";
 type Options = [];
@@ -69,6 +74,9 @@ const rule: TSESLint.RuleModule<MessageIds, Options> = {
 
         // Check if signals are accessed properly in the callback
         function checkNode(node: TSESTree.Node) {
+          // Reads inside untrack() are intentionally not dependencies
+          if (isUntrackCall(node)) return;
+
           // Check for signal variable usage without .value or ()
           if (node.type === "Identifier" && signalVariables.has(node.name)) {
             // Check if this is part of a member expression or call expression
@@ -77,11 +85,11 @@ const rule: TSESLint.RuleModule<MessageIds, Options> = {
             )?.parent;
 
             if (parent) {
-              // Allow: signal.value or signal()
+              // Allow: signal.value, signal.peek() or signal()
               if (
                 parent.type === "MemberExpression" &&
                 parent.property.type === "Identifier" &&
-                parent.property.name === "value"
+                SIGNAL_READ_METHODS.includes(parent.property.name)
               ) {
                 return; // Valid access
               }
@@ -94,19 +102,8 @@ const rule: TSESLint.RuleModule<MessageIds, Options> = {
           }
 
           // Recurse into children
-          for (const key in node) {
-            const child = (node as unknown as Record<string, unknown>)[key];
-            if (child && typeof child === "object") {
-              if (Array.isArray(child)) {
-                for (const item of child) {
-                  if (item && typeof item === "object" && "type" in item) {
-                    checkNode(item as TSESTree.Node);
-                  }
-                }
-              } else if ("type" in child) {
-                checkNode(child as TSESTree.Node);
-              }
-            }
+          for (const child of getChildNodes(node)) {
+            checkNode(child);
           }
         }
 
@@ -3,6 +3,7 @@ import type { TSESTree } from "@typescript-eslint/utils";
 export const SIGNAL_FUNCTIONS = ["signal", "computed", "use"];
 export const REACTIVE_CONTEXTS = ["use", "computed", "sync", "root"];
 export const SIGNAL_READ_METHODS = ["value", "peek"];
+export const UNTRACK_FUNCTIONS = ["untrack"];
 
 export function isSignalCreation(node: TSESTree.CallExpression): boolean {
   if (node.callee.type === "Identifier") {
@@ -18,6 +19,55 @@ export function isReactiveContext(node: TSESTree.CallExpression): boolean {
   return false;
 }
 
+/**
+ * `untrack(() => ...)` call: reads inside it never become dependencies
+ */
+export function isUntrackCall(node: TSESTree.Node): boolean {
+  return (
+    node.type === "CallExpression" &&
+    node.callee.type === "Identifier" &&
+    UNTRACK_FUNCTIONS.includes(node.callee.name)
+  );
+}
+
+/**
+ * `x.peek()` read: returns the current value without subscribing
+ */
+export function isPeekRead(node: TSESTree.Node): boolean {
+  return (
+    node.parent?.type === "MemberExpression" &&
+    node.parent.object === node &&
+    node.parent.property.type === "Identifier" &&
+    node.parent.property.name === "peek"
+  );
+}
+
+/**
+ * Direct child nodes, skipping the `parent` back reference
+ */
+export function getChildNodes(node: TSESTree.Node): TSESTree.Node[] {
+  const children: TSESTree.Node[] = [];
+
+  for (const key in node) {
+    if (key === "parent") continue;
+
+    const child = (node as unknown as Record<string, unknown>)[key];
+    if (child && typeof child === "object") {
+      if (Array.isArray(child)) {
+        for (const item of child) {
+          if (item && typeof item === "object" && "type" in item) {
+            children.push(item as TSESTree.Node);
+          }
+        }
+      } else if ("type" in child) {
+        children.push(child as TSESTree.Node);
+      }
+    }
+  }
+
+  return children;
+}
+
 export function isInsideReactiveContext(
   node: TSESTree.Node,
   context: { getAncestors: () => TSESTree.Node[] },
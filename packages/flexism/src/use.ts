@@ -1,5 +1,5 @@
-import { use as flexiumUse, Context, isUseable, type Useable } from 'flexium/core'
-import type { Setter, ResourceControl, UseContext, UseOptions } from 'flexium/core'
+import { use as flexiumUse, Context, Machine, isUseable, type Useable } from 'flexium/core'
+import type { Setter, ResourceControl, UseContext, UseOptions, MachineSnapshot } from 'flexium/core'
 import {
   getIsServer,
   getIsHydrating,
@@ -47,13 +47,13 @@ export function use<T, P = void>(
   fn: (ctx: UseContext<P>) => Promise<T>,
   depsOrOptions?: any[] | UseOptions,
   options?: UseOptions
-): [T | undefined, ResourceControl<P>]
+): [T | undefined, ResourceControl<P, T | undefined>]
 
 export function use<T>(
   fn: (ctx: UseContext) => T,
   depsOrOptions?: any[] | UseOptions,
   options?: UseOptions
-): [T, ResourceControl]
+): [T, ResourceControl<void, T>]
 
 export function use<T>(
   initialValue: T extends Function ? never : T,
@@ -119,6 +119,26 @@ export function use<T, P = void>(
       return (flexiumUse as any)(source, params)
     }
 
+    // Handle Machine: the server's state and context continue on the client
+    if (source instanceof Machine) {
+      const machineId = generateSignalId()
+
+      // Server: serialize the current state for client
+      if (getIsServer()) {
+        const snapshot = source.toJSON()
+        collectSignal(machineId, { value: snapshot.value, context: serializeValue(snapshot.context) })
+        return [source.getInitial(), ...source.getActions()]
+      }
+
+      // Client hydrating: continue from the server state
+      if (getIsHydrating() && hasHydratedSignal(machineId)) {
+        const snapshot = getHydratedSignal(machineId) as MachineSnapshot
+        source.restore({ value: snapshot.value, context: deserializeValue(snapshot.context) })
+      }
+
+      return flexiumUse(source)
+    }
+
     // Other Useable types: pass through
     if (getIsServer()) {
       const initialValue = source.getInitial(params)
@@ -151,7 +171,8 @@ export function use<T, P = void>(
   if (getIsServer()) {
     collectSignal(signalId, serializeValue(input))
     // Return static value on server (no reactivity)
-    const noopSetter: Setter<T> = () => {}
+    const noopSetter = (() => {}) as Setter<T>
+    noopSetter.peek = () => input as T
     return [input, noopSetter]
   }
 
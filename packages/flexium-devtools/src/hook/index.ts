@@ -36,10 +36,29 @@ window.__FLEXIUM_DEVTOOLS__ = {
   },
 
   onRender(event: RenderEvent) {
-    sendToDevTools('FLEXIUM_RENDER', { render: event })
+    // Traced values can be anything; only strings survive postMessage safely
+    const causes = (event.causes as any[] | undefined)?.map(cause => ({
+      signal: cause.signal,
+      oldValue: stringify(cause.oldValue),
+      newValue: stringify(cause.newValue),
+      stack: cause.stack,
+    }))
+    sendToDevTools('FLEXIUM_RENDER', { render: { ...event, causes } })
   },
 }
 
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return `"${value}"`
+  if (typeof value === 'object' && value !== null) {
+    try {
+      return JSON.stringify(value)
+    } catch {
+      return '[Object]'
+    }
+  }
+  return String(value)
+}
+
 function sendToDevTools(type: string, data: Record<string, unknown>) {
   window.postMessage(
     {
@@ -131,11 +131,24 @@ function renderRenderLog() {
         <span class="signal-value">${event.duration.toFixed(2)}ms</span>
         <span class="signal-type">${event.trigger}</span>
       </div>
+      ${(event.causes || [])
+        .map(
+          (cause) => `
+        <div class="render-cause" title="${escapeAttribute(cause.stack || '')}">
+          why: ${cause.signal} ${cause.oldValue} → ${cause.newValue}
+        </div>
+      `
+        )
+        .join('')}
     `
     )
     .join('')
 }
 
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
+
 // Initial render
 renderSignalTree()
 renderRenderLog()
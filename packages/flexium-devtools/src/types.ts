@@ -18,12 +18,22 @@ export interface ComponentInfo {
   renderCount: number
 }
 
+// A write that caused a traced render, with values already formatted
+export interface RenderCause {
+  signal: string
+  oldValue: string
+  newValue: string
+  stack?: string
+}
+
 export interface RenderEvent {
   timestamp: number
   componentId: number
   componentName: string
   trigger: string
   duration: number
+  /** Set for components traced with trace() */
+  causes?: RenderCause[]
 }
 
 export type MessageType =
@@ -4,7 +4,8 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { resetStyles, getStyles } from 'flexium/css'
 import { defaultTheme } from '../theme'
-import { Text, Button } from '../components'
+import { useForm } from 'flexium/core'
+import { Text, Button, TextField, Checkbox } from '../components'
 
 describe('Text', () => {
   beforeEach(() => {
@@ -152,3 +153,32 @@ describe('Button', () => {
     expect(result.props.class).toContain('custom')
   })
 })
+
+describe('Form fields', () => {
+  beforeEach(() => {
+    resetStyles()
+  })
+
+  it('should bind TextField to a form field', () => {
+    const form = useForm({ initialValues: { email: 'ada@example.com' } })
+    const field = form.register<string>('email')
+    form.setError('email', 'Taken')
+    form.touched.email = true
+
+    const result = TextField({ field })
+    const [, input, error] = result.children
+    expect(input.props.value).toBe('ada@example.com')
+    expect(input.props.name).toBe('email')
+    expect(input.props.onInput).toBe(field.onInput)
+    expect(input.props.onBlur).toBe(field.onBlur)
+    expect(error.children).toContain('Taken')
+  })
+
+  it('should bind Checkbox to a boolean form field', () => {
+    const form = useForm({ initialValues: { agree: false } })
+
+    Checkbox({ field: form.register('agree') }).children[1].props.onClick({})
+    expect(form.values.agree).toBe(true)
+    expect(Checkbox({ field: form.register('agree') }).children[0].props.checked).toBe(true)
+  })
+})
@@ -1,12 +1,15 @@
 import { css, cx } from 'flexium/css'
 import { useTheme } from '../theme'
 import type { StyleObject } from 'flexium/css'
+import type { FieldBinding } from 'flexium/core'
 
 export interface CheckboxProps {
   /** Checked state */
   checked?: boolean
   /** Change handler */
   onChange?: (e: Event) => void
+  /** Form field from useForm().register(); provides checked state and handler */
+  field?: FieldBinding<boolean>
   /** Checkbox label */
   label?: string
   /** Disabled state */
@@ -41,12 +44,14 @@ const sizeStyles = {
  *   label="Subscribe to newsletter"
  *   size="lg"
  * />
+ * <Checkbox label="Accept terms" field={form.register('accepted')} />
  * ```
  */
 export function Checkbox(props: CheckboxProps) {
   const {
-    checked,
-    onChange,
+    field,
+    checked = field?.checked,
+    onChange = field?.onChange,
     label,
     disabled,
     size = 'md',
@@ -135,6 +140,7 @@ export function Checkbox(props: CheckboxProps) {
         class={hiddenInputClass}
         checked={checked}
         disabled={disabled}
+        name={field?.name}
         {...rest}
       />
       <div class={checkboxBoxClass} onClick={handleClick}>
@@ -1,12 +1,15 @@
 import { css, cx } from 'flexium/css'
 import { useTheme } from '../theme'
 import type { StyleObject } from 'flexium/css'
+import type { FieldBinding } from 'flexium/core'
 
 export interface SwitchProps {
   /** Checked state */
   checked?: boolean
   /** Change handler */
   onChange?: (e: Event) => void
+  /** Form field from useForm().register(); provides checked state and handler */
+  field?: FieldBinding<boolean>
   /** Switch label */
   label?: string
   /** Disabled state */
@@ -41,12 +44,14 @@ const sizeStyles = {
  *   label="Dark mode"
  *   size="lg"
  * />
+ * <Switch label="Notifications" field={form.register('notify')} />
  * ```
  */
 export function Switch(props: SwitchProps) {
   const {
-    checked,
-    onChange,
+    field,
+    checked = field?.checked,
+    onChange = field?.onChange,
     label,
     disabled,
     size = 'md',
@@ -138,6 +143,7 @@ export function Switch(props: SwitchProps) {
         class={hiddenInputClass}
         checked={checked}
         disabled={disabled}
+        name={field?.name}
         {...rest}
       />
       <div class={trackClass} onClick={handleClick}>
@@ -1,6 +1,7 @@
 import { css, cx } from 'flexium/css'
 import { useTheme } from '../theme'
 import type { StyleObject } from 'flexium/css'
+import type { FieldBinding } from 'flexium/core'
 
 export interface TextFieldProps {
   /** Input value */
@@ -13,6 +14,8 @@ export interface TextFieldProps {
   label?: string
   /** Error message */
   error?: string
+  /** Form field from useForm().register(); provides value, handlers and error */
+  field?: FieldBinding<string>
   /** Disabled state */
   disabled?: boolean
   /** Input type */
@@ -49,15 +52,17 @@ const sizeStyles = {
  *   type="password"
  *   error="Password is required"
  * />
+ * <TextField label="Name" field={form.register('name')} />
  * ```
  */
 export function TextField(props: TextFieldProps) {
   const {
-    value,
-    onChange,
+    field,
+    value = field?.value,
+    onChange = field?.onChange,
     placeholder,
     label,
-    error,
+    error = field?.error,
     disabled,
     type = 'text',
     size = 'md',
@@ -137,6 +142,9 @@ export function TextField(props: TextFieldProps) {
         onChange={onChange}
         placeholder={placeholder}
         disabled={disabled}
+        name={field?.name}
+        onInput={field?.onInput}
+        onBlur={field?.onBlur}
         {...rest}
       />
       {error && <span class={errorClass}>{error}</span>}
@@ -3,12 +3,52 @@
  *
  * Tests for: use, sync, useRef, Context, Useable
  */
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { render, f } from '../dom'
-import { use, sync, useRef, Context, Useable, isUseable } from '../core'
+import {
+  use,
+  sync,
+  useRef,
+  computed,
+  untrack,
+  effect,
+  watch,
+  invalidate,
+  useMutation,
+  history,
+  snapshotState,
+  restoreState,
+  createStore,
+  storeLogger,
+  persistStore,
+  startTransition,
+  useTransition,
+  createMachine,
+  useForm,
+  onUncaughtError,
+  trace,
+  getDependencies,
+  Context,
+  Useable,
+  isUseable,
+  fromEvent,
+  fromObservable,
+  fromAsyncIterable,
+  WebSocketSource,
+} from '../core'
+import type { MachineSnapshot, ResourceControl, TraceRun } from '../core'
+import { reactive } from '../core/reactive'
+import { getCurrentPriority } from '../core/lifecycle'
 
 const tick = () => new Promise(r => setTimeout(r, 50))
 
+// Record written to localStorage by persisted state
+const stored = (key: string) =>
+  JSON.parse(localStorage.getItem(key) ?? 'null') as {
+    version: number
+    value: unknown
+  }
+
 describe('use()', () => {
   let container: HTMLDivElement
 
@@ -448,7 +488,10 @@ describe('Useable', () => {
         return this.value
       }
 
-      subscribe(_params: undefined, callback: (value: number) => void): () => void {
+      subscribe(
+        _params: undefined,
+        callback: (value: number) => void
+      ): () => void {
         // Simulate async update
         const timer = setTimeout(() => {
           this.value++
@@ -486,7 +529,9 @@ describe('Useable', () => {
     }
 
     render(f(App), container)
-    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe('42')
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '42'
+    )
   })
 
   it('should update when Useable calls callback', async () => {
@@ -501,7 +546,10 @@ describe('Useable', () => {
         return this.initial
       }
 
-      subscribe(_params: undefined, callback: (value: number) => void): () => void {
+      subscribe(
+        _params: undefined,
+        callback: (value: number) => void
+      ): () => void {
         callbacks.push(callback)
         return () => {
           const idx = callbacks.indexOf(callback)
@@ -518,13 +566,17 @@ describe('Useable', () => {
     }
 
     render(f(App), container)
-    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe('0')
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '0'
+    )
 
     // Simulate external update
-    callbacks.forEach(cb => cb(100))
+    callbacks.forEach((cb) => cb(100))
     await tick()
 
-    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe('100')
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '100'
+    )
   })
 
   it('Context should extend Useable', () => {
@@ -532,4 +584,1887 @@ describe('Useable', () => {
     expect(ctx instanceof Useable).toBe(true)
     expect(ctx.getInitial()).toBe('default')
   })
+
+  it('should follow events and observables until unmounted', async () => {
+    const target = new EventTarget()
+    const clicks = fromEvent<number, CustomEvent<number>>(
+      target,
+      'count',
+      (e) => e.detail,
+      0
+    )
+
+    let observer: ((value: string) => void) | undefined
+    const unsubscribe = vi.fn()
+    const messages = fromObservable<string>(
+      {
+        subscribe: (o) => {
+          observer = o.next
+          return { unsubscribe }
+        },
+      },
+      'none'
+    )
+
+    function App() {
+      const [count] = use(clicks)
+      const [message] = use(messages)
+      return f('div', { 'data-testid': 'value' }, `${count} ${message}`)
+    }
+
+    const dispose = render(f(App), container)
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '0 none'
+    )
+
+    target.dispatchEvent(new CustomEvent('count', { detail: 3 }))
+    observer?.('hello')
+    await tick()
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '3 hello'
+    )
+
+    dispose()
+    expect(unsubscribe).toHaveBeenCalledTimes(1)
+    // Later consumers start from the latest value
+    expect(clicks.getInitial()).toBe(3)
+  })
+
+  it('should follow async iterables', async () => {
+    async function* countdown() {
+      yield 2
+      yield 1
+    }
+    const source = fromAsyncIterable(countdown, 3)
+
+    function App() {
+      const [value] = use(source)
+      return f('div', { 'data-testid': 'value' }, String(value))
+    }
+
+    render(f(App), container)
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '3'
+    )
+
+    await tick()
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      '1'
+    )
+  })
+
+  it('should report errors of observables and async iterables', async () => {
+    let fail!: (error: unknown) => void
+    const messages = fromObservable<string>(
+      {
+        subscribe: (o) => {
+          o.next('hello')
+          fail = (error) => o.error?.(error)
+          return () => {}
+        },
+      },
+      'none'
+    )
+    async function* countdown() {
+      yield 1
+      await Promise.reject(new Error('stream failed'))
+    }
+    const count = fromAsyncIterable(countdown, 2)
+
+    function App() {
+      const [message] = use(messages)
+      const [value] = use(count)
+      return f('div', { 'data-testid': 'value' }, `${message} ${value}`)
+    }
+
+    const errors: unknown[] = []
+    const off = onUncaughtError((error) => errors.push(error))
+    try {
+      render(f(App), container)
+      fail(new Error('observable failed'))
+      await tick()
+    } finally {
+      off()
+    }
+
+    expect(errors.map((error) => (error as Error).message)).toEqual([
+      'observable failed',
+      'stream failed',
+    ])
+    // The last values stay
+    expect(container.querySelector('[data-testid="value"]')?.textContent).toBe(
+      'hello 1'
+    )
+  })
+
+  it('should share a reconnecting WebSocket with a send action', async () => {
+    const sockets: FakeSocket[] = []
+    class FakeSocket {
+      readyState = 0
+      sent: string[] = []
+      onopen?: () => void
+      onmessage?: (event: { data: string }) => void
+      onclose?: () => void
+      constructor(readonly url: string) {
+        sockets.push(this)
+      }
+      send(data: string) {
+        this.sent.push(data)
+      }
+      close() {
+        this.readyState = 3
+      }
+      open() {
+        this.readyState = 1
+        this.onopen?.()
+      }
+    }
+    vi.stubGlobal('WebSocket', FakeSocket)
+
+    const chat = new WebSocketSource<{ text: string } | null, string>(
+      'ws://test',
+      {
+        initial: null,
+        reconnect: { delay: 10 },
+      }
+    )
+    let send!: (message: string) => void
+
+    function Message() {
+      const [message, sendMessage] = use(chat)
+      send = sendMessage
+      return f('span', {}, message?.text ?? 'empty')
+    }
+
+    function App() {
+      return f('div', { 'data-testid': 'value' }, [f(Message), f(Message)])
+    }
+
+    try {
+      render(f(App), container)
+      expect(sockets.length).toBe(1)
+
+      // Queued until the connection opens
+      send('hi')
+      sockets[0].open()
+      expect(sockets[0].sent).toEqual(['"hi"'])
+
+      sockets[0].onmessage?.({ data: '{"text":"hello"}' })
+      await tick()
+      expect(
+        container.querySelector('[data-testid="value"]')?.textContent
+      ).toBe('hellohello')
+
+      // Malformed messages are reported and the last value stays
+      const errors: unknown[] = []
+      const off = onUncaughtError((error) => errors.push(error))
+      sockets[0].onmessage?.({ data: '{"text":' })
+      sockets[0].onmessage?.({ data: '{"text":"again"}' })
+      off()
+      await tick()
+      expect(errors).toHaveLength(1)
+      expect(errors[0]).toBeInstanceOf(SyntaxError)
+      expect(
+        container.querySelector('[data-testid="value"]')?.textContent
+      ).toBe('againagain')
+
+      sockets[0].onclose?.()
+      await tick()
+      expect(sockets.length).toBe(2)
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+})
+
+describe('Collection state', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should re-render when an array is mutated in place', async () => {
+    let list: string[] = []
+
+    function TodoList() {
+      const [items] = use<string[]>([])
+      list = items
+      return f(
+        'ul',
+        {},
+        items.map((item) => f('li', {}, item))
+      )
+    }
+
+    render(f(TodoList), container)
+    expect(container.querySelectorAll('li').length).toBe(0)
+
+    list.push('a')
+    list.push('b')
+    await tick()
+    expect(container.querySelectorAll('li').length).toBe(2)
+
+    list.splice(0, 1)
+    await tick()
+    expect(container.textContent).toBe('b')
+
+    list.length = 0
+    await tick()
+    expect(container.querySelectorAll('li').length).toBe(0)
+  })
+
+  it('should track Map reads, size and iteration', async () => {
+    let users: Map<number, { name: string }> = new Map()
+
+    function Users() {
+      const [map] = use(new Map<number, { name: string }>())
+      users = map
+      return f('div', {}, [
+        f('span', { 'data-testid': 'size' }, String(map.size)),
+        f('span', { 'data-testid': 'first' }, map.get(1)?.name ?? '-'),
+        f(
+          'span',
+          { 'data-testid': 'names' },
+          [...map.values()].map((u) => u.name).join(',')
+        ),
+      ])
+    }
+
+    render(f(Users), container)
+    expect(container.querySelector('[data-testid="size"]')?.textContent).toBe(
+      '0'
+    )
+
+    users.set(1, { name: 'Ann' })
+    users.set(2, { name: 'Bob' })
+    await tick()
+    expect(container.querySelector('[data-testid="size"]')?.textContent).toBe(
+      '2'
+    )
+    expect(container.querySelector('[data-testid="first"]')?.textContent).toBe(
+      'Ann'
+    )
+    expect(container.querySelector('[data-testid="names"]')?.textContent).toBe(
+      'Ann,Bob'
+    )
+    ;(users.get(2) as { name: string }).name = 'Bea'
+    await tick()
+    expect(container.querySelector('[data-testid="names"]')?.textContent).toBe(
+      'Ann,Bea'
+    )
+
+    users.delete(1)
+    await tick()
+    expect(container.querySelector('[data-testid="first"]')?.textContent).toBe(
+      '-'
+    )
+
+    users.clear()
+    await tick()
+    expect(container.querySelector('[data-testid="size"]')?.textContent).toBe(
+      '0'
+    )
+  })
+
+  it('should track Set membership', async () => {
+    let selected: Set<string> = new Set()
+
+    function Selection() {
+      const [set] = use(new Set<string>())
+      selected = set
+      return f('div', {}, set.has('x') ? 'selected' : 'none')
+    }
+
+    render(f(Selection), container)
+    expect(container.textContent).toBe('none')
+
+    selected.add('x')
+    await tick()
+    expect(container.textContent).toBe('selected')
+
+    selected.delete('x')
+    await tick()
+    expect(container.textContent).toBe('none')
+  })
+
+  it('should track key deletion, `in` checks and key iteration on objects', async () => {
+    let flags: Record<string, boolean> = {}
+
+    function Flags() {
+      const [obj] = use<Record<string, boolean>>({ a: true })
+      flags = obj
+      return f('div', {}, [
+        f('span', { 'data-testid': 'keys' }, Object.keys(obj).join(',')),
+        f('span', { 'data-testid': 'has-b' }, String('b' in obj)),
+      ])
+    }
+
+    render(f(Flags), container)
+    expect(container.querySelector('[data-testid="keys"]')?.textContent).toBe(
+      'a'
+    )
+
+    flags.b = true
+    await tick()
+    expect(container.querySelector('[data-testid="keys"]')?.textContent).toBe(
+      'a,b'
+    )
+    expect(container.querySelector('[data-testid="has-b"]')?.textContent).toBe(
+      'true'
+    )
+
+    delete flags.a
+    delete flags.b
+    await tick()
+    expect(container.querySelector('[data-testid="keys"]')?.textContent).toBe(
+      ''
+    )
+    expect(container.querySelector('[data-testid="has-b"]')?.textContent).toBe(
+      'false'
+    )
+  })
+})
+
+describe('computed()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should evaluate lazily and memoize', () => {
+    const state = reactive({ count: 1 })
+    let runs = 0
+    const double = computed(() => {
+      runs++
+      return state.count * 2
+    })
+
+    expect(runs).toBe(0)
+    expect(double.value).toBe(2)
+    expect(double.value).toBe(2)
+    expect(runs).toBe(1)
+
+    state.count = 2
+    expect(runs).toBe(1)
+    expect(double.value).toBe(4)
+    expect(runs).toBe(1 + 1)
+  })
+
+  it('should recompute each node of a diamond once per flush', () => {
+    const state = reactive({ a: 1 })
+    const runs = { b: 0, c: 0, d: 0 }
+    const b = computed(() => (runs.b++, state.a + 1))
+    const c = computed(() => (runs.c++, state.a * 10))
+    const d = computed(() => (runs.d++, `${b.value}/${c.value}`))
+    const seen: string[] = []
+
+    function View() {
+      seen.push(d.value)
+      return f('div', {}, d.value)
+    }
+
+    render(f(View), container)
+    expect(container.textContent).toBe('2/10')
+
+    sync(() => {
+      state.a = 2
+    })
+
+    expect(container.textContent).toBe('3/20')
+    expect(runs).toEqual({ b: 2, c: 2, d: 2 })
+    expect(seen).toEqual(['2/10', '3/20'])
+  })
+
+  it('should stop propagation when equals() reports no change', async () => {
+    const state = reactive({ n: 1 })
+    const parity = computed(() => state.n % 2, { equals: (a, b) => a === b })
+    let renders = 0
+
+    function View() {
+      renders++
+      return f('div', {}, String(parity.value))
+    }
+
+    render(f(View), container)
+    expect(renders).toBe(1)
+
+    state.n = 3
+    await tick()
+    expect(renders).toBe(1)
+
+    state.n = 4
+    await tick()
+    expect(renders).toBe(2)
+    expect(container.textContent).toBe('0')
+  })
+
+  it('should back derived use(fn) values', async () => {
+    let runs = 0
+    let list: number[] = []
+
+    function App() {
+      const [items] = use([1, 2])
+      list = items
+      const [total] = use(() => {
+        runs++
+        return items.reduce((sum, n) => sum + n, 0)
+      })
+      return f('div', {}, `${items.length}:${total}`)
+    }
+
+    render(f(App), container)
+    expect(container.textContent).toBe('2:3')
+    expect(runs).toBe(1)
+
+    list.push(10)
+    await tick()
+    expect(container.textContent).toBe('3:13')
+    expect(runs).toBe(2)
+  })
+})
+
+describe('effect()', () => {
+  it('should re-run on change and clean up before each run', async () => {
+    const state = reactive({ count: 0 })
+    const log: string[] = []
+
+    const stop = effect(() => {
+      const seen = state.count
+      log.push(`run ${seen}`)
+      return () => log.push(`cleanup ${seen}`)
+    })
+
+    expect(log).toEqual(['run 0'])
+
+    state.count++
+    await tick()
+    expect(log).toEqual(['run 0', 'cleanup 0', 'run 1'])
+
+    stop()
+    expect(log).toEqual(['run 0', 'cleanup 0', 'run 1', 'cleanup 1'])
+
+    state.count++
+    await tick()
+    expect(log.length).toBe(4)
+  })
+
+  it('should be stopped with its component', async () => {
+    const container = document.createElement('div')
+    const state = reactive({ count: 0 })
+    let runs = 0
+
+    function App() {
+      effect(() => {
+        runs += state.count >= 0 ? 1 : 0
+      })
+      return f('div', {}, 'app')
+    }
+
+    const dispose = render(f(App), container)
+    expect(runs).toBe(1)
+
+    dispose()
+    state.count++
+    await tick()
+    expect(runs).toBe(1)
+  })
+})
+
+describe('Errors in flush()', () => {
+  it('should stop effects updating each other forever and name them', async () => {
+    const errors: unknown[] = []
+    const off = onUncaughtError((error) => errors.push(error))
+    const store = createStore({ ping: 0, pong: 0 }, {}, { name: 'match' })
+    const { state } = store
+    let other = 0
+    const runs = { ping: 0, pong: 0 }
+
+    const stopPing = effect(
+      () => {
+        runs.ping++
+        state.pong = state.ping + 1
+      },
+      { name: 'ping' }
+    )
+    const stopPong = effect(
+      () => {
+        runs.pong++
+        state.ping = state.pong + 1
+      },
+      { name: 'pong' }
+    )
+    const stopOther = effect(() => {
+      other = state.ping
+    })
+
+    await tick()
+    // The effect tripping the guard is stopped: it doesn't run again
+    const tripped = (errors[0] as Error).message.includes('ping re-ran')
+      ? 'ping'
+      : 'pong'
+    const trippedRuns = runs[tripped]
+    state.ping = -10
+    state.pong = -10
+    await tick()
+    expect(runs[tripped]).toBe(trippedRuns)
+    off()
+    stopPing()
+    stopPong()
+    stopOther()
+
+    expect(errors).toHaveLength(1)
+    expect((errors[0] as Error).message).toMatch(
+      /Maximum update count exceeded: (ping|pong) re-ran 100 times/
+    )
+    expect((errors[0] as Error).message).toMatch(/match\.(ping|pong)/)
+    // The queue kept flushing after the error
+    expect(other).toBe(state.ping)
+  })
+
+  it('should run the rest of the queue when an effect throws', async () => {
+    const errors: unknown[] = []
+    const off = onUncaughtError((error) => errors.push(error))
+    const state = reactive({ count: 0 })
+    const seen: number[] = []
+
+    const stopFailing = effect(() => {
+      if (state.count > 0) throw new Error('boom')
+    })
+    const stopOther = effect(() => {
+      seen.push(state.count)
+    })
+
+    state.count++
+    await tick()
+    off()
+    stopFailing()
+    stopOther()
+
+    expect((errors as Error[]).map((error) => error.message)).toEqual(['boom'])
+    expect(seen).toEqual([0, 1])
+  })
+})
+
+describe('trace() & getDependencies()', () => {
+  it('should report which writes made a component re-render', async () => {
+    const container = document.createElement('div')
+    let setCount!: (value: number) => void
+    const runs: TraceRun[] = []
+
+    function Counter() {
+      const [count, set] = use(0, { name: 'count' })
+      setCount = set
+      return f('span', {}, String(count))
+    }
+
+    const stop = trace(Counter, (run) => runs.push(run))
+    const dispose = render(f(Counter), container)
+
+    expect(getDependencies(Counter)).toContainEqual(
+      expect.objectContaining({ key: 'value', name: 'count' })
+    )
+
+    setCount(5)
+    await tick()
+    stop()
+    setCount(6)
+    await tick()
+    dispose()
+
+    expect(runs).toHaveLength(1)
+    expect(runs[0].name).toBe('<Counter>')
+    expect(runs[0].causes).toEqual([
+      expect.objectContaining({
+        name: 'count',
+        key: 'value',
+        oldValue: 0,
+        newValue: 5,
+        stack: expect.any(String),
+      }),
+    ])
+  })
+
+  it('should list the computeds an effect reads', () => {
+    const state = reactive({ a: 1 })
+    const double = computed(() => state.a * 2)
+    function logDouble() {
+      void double.value
+    }
+
+    const stop = effect(logDouble)
+    const dependencies = getDependencies(logDouble)
+    stop()
+
+    expect(dependencies).toEqual([{ target: double, name: undefined }])
+    expect(getDependencies(double)).toEqual([
+      expect.objectContaining({ key: 'a' }),
+    ])
+  })
+})
+
+describe('watch()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should pass new and old values', async () => {
+    const state = reactive({ count: 0 })
+    const calls: Array<[number, number | undefined]> = []
+
+    const stop = watch(
+      () => state.count,
+      (value, oldValue) => {
+        calls.push([value, oldValue])
+      }
+    )
+
+    expect(calls).toEqual([])
+
+    state.count = 5
+    await tick()
+    state.count = 7
+    await tick()
+    expect(calls).toEqual([
+      [5, 0],
+      [7, 5],
+    ])
+
+    stop()
+    state.count = 9
+    await tick()
+    expect(calls.length).toBe(2)
+  })
+
+  it('should run immediately and support sync flush', () => {
+    const state = reactive({ count: 0 })
+    const calls: number[] = []
+
+    watch(
+      () => state.count,
+      (value) => calls.push(value),
+      { immediate: true, flush: 'sync' }
+    )
+    expect(calls).toEqual([0])
+
+    state.count = 1
+    state.count = 2
+    expect(calls).toEqual([0, 1, 2])
+  })
+
+  it('should watch reactive objects deeply and multiple sources', async () => {
+    const state = reactive({ user: { name: 'Ann' }, count: 0 })
+    let deepCalls = 0
+    const multi: unknown[] = []
+
+    watch(state, () => deepCalls++)
+    watch([() => state.count, () => state.user.name], (values) =>
+      multi.push(values)
+    )
+
+    state.user.name = 'Bob'
+    await tick()
+    expect(deepCalls).toBe(1)
+    expect(multi).toEqual([[0, 'Bob']])
+  })
+
+  it('should run post watchers after the DOM is patched', async () => {
+    const state = reactive({ count: 0 })
+    const seen: Array<[string | null | undefined, string | null | undefined]> =
+      []
+
+    function App() {
+      watch(
+        () => state.count,
+        () => {
+          seen.push(['post', container.textContent])
+        },
+        { flush: 'post' }
+      )
+      watch(
+        () => state.count,
+        () => {
+          seen.push(['pre', container.textContent])
+        }
+      )
+      return f('div', {}, String(state.count))
+    }
+
+    render(f(App), container)
+
+    state.count = 1
+    await tick()
+    expect(seen).toEqual([
+      ['pre', '0'],
+      ['post', '1'],
+    ])
+  })
+})
+
+describe('untrack() & peek()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should read inside untrack() without subscribing', async () => {
+    const state = reactive({ tracked: 0, ignored: 0 })
+    const runs: Array<[number, number]> = []
+
+    effect(() => {
+      runs.push([state.tracked, untrack(() => state.ignored)])
+    })
+
+    state.ignored = 1
+    await tick()
+    expect(runs).toEqual([[0, 0]])
+
+    state.tracked = 1
+    await tick()
+    expect(runs).toEqual([
+      [0, 0],
+      [1, 1],
+    ])
+  })
+
+  it('should peek at state and derived values without re-rendering', async () => {
+    let setCount!: ReturnType<typeof use<number>>[1]
+    const peeked: number[] = []
+    let readerRenders = 0
+
+    function Source() {
+      const [count, set] = use(0)
+      setCount = set
+      return f('span', {}, String(count))
+    }
+
+    function Reader() {
+      readerRenders++
+      const [, control] = use(() => 'static')
+      peeked.push(setCount.peek())
+      return f('span', {}, control.peek())
+    }
+
+    render(f('div', {}, [f(Source), f(Reader)]), container)
+    expect(container.textContent).toBe('0static')
+
+    setCount(5)
+    await tick()
+    expect(container.textContent).toBe('5static')
+    expect(setCount.peek()).toBe(5)
+    expect(readerRenders).toBe(1)
+    expect(peeked).toEqual([0])
+  })
+})
+
+describe('Async use() query cache', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should share one request between components using the same key', async () => {
+    let calls = 0
+    const fetchUser = async () => {
+      calls++
+      await new Promise((r) => setTimeout(r, 10))
+      return 'Ann'
+    }
+
+    function User() {
+      const [name] = use(fetchUser, { key: ['query', 'dedupe'] })
+      return f('span', {}, name ?? '...')
+    }
+
+    render(f('div', {}, [f(User), f(User)]), container)
+    await tick()
+
+    expect(calls).toBe(1)
+    expect(container.textContent).toBe('AnnAnn')
+  })
+
+  it('should abort the previous request and ignore its late result', async () => {
+    const signals: AbortSignal[] = []
+    let control!: ResourceControl<number, string | undefined>
+
+    function App() {
+      const [data, c] = use<string, number>(async ({ params = 0, signal }) => {
+        signals.push(signal)
+        await new Promise((r) => setTimeout(r, params === 0 ? 30 : 5))
+        return `result ${params}`
+      })
+      control = c
+      return f('span', {}, data ?? '...')
+    }
+
+    render(f(App), container)
+    void control.refetch(1)
+    await tick()
+
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[1].aborted).toBe(false)
+    expect(container.textContent).toBe('result 1')
+  })
+
+  it('should retry failed requests with backoff', async () => {
+    let attempts = 0
+    const retried: number[] = []
+
+    function App() {
+      const [data, control] = use(
+        () => {
+          attempts++
+          if (attempts < 3) return Promise.reject(new Error('flaky'))
+          return Promise.resolve('ok')
+        },
+        {
+          retry: 2,
+          retryDelay: (attempt) => {
+            retried.push(attempt)
+            return 1
+          },
+        }
+      )
+      return f('span', {}, control.error ? 'error' : (data ?? '...'))
+    }
+
+    render(f(App), container)
+    await tick()
+
+    expect(attempts).toBe(3)
+    expect(retried).toEqual([0, 1])
+    expect(container.textContent).toBe('ok')
+  })
+
+  it('should reuse fresh results and refetch on invalidate()', async () => {
+    const other = document.createElement('div')
+    let calls = 0
+    let control!: ResourceControl<void, string | undefined>
+
+    function Todos() {
+      const [data, c] = use(() => Promise.resolve(`v${++calls}`), {
+        key: ['query', 'todos', 1],
+        staleTime: 60_000,
+      })
+      control = c
+      return f('span', {}, data ?? '...')
+    }
+
+    render(f(Todos), container)
+    await tick()
+    expect(calls).toBe(1)
+    expect(control.isStale).toBe(false)
+
+    render(f(Todos), other)
+    expect(calls).toBe(1)
+    expect(other.textContent).toBe('v1')
+
+    invalidate(['query', 'todos'])
+    expect(control.isFetching).toBe(true)
+    expect(control.isStale).toBe(true)
+
+    await tick()
+    expect(calls).toBe(2)
+    expect(control.isFetching).toBe(false)
+    expect(container.textContent).toBe('v2')
+    expect(other.textContent).toBe('v2')
+  })
+
+  it('should poll while mounted and drop unused keys after cacheTime', async () => {
+    let calls = 0
+
+    function Poller() {
+      const [data] = use(() => Promise.resolve(++calls), {
+        key: ['query', 'poll'],
+        refetchInterval: 10,
+        cacheTime: 10,
+      })
+      return f('span', {}, String(data))
+    }
+
+    const dispose = render(f(Poller), container)
+    await tick()
+    expect(calls).toBeGreaterThan(2)
+
+    dispose()
+    const afterDispose = calls
+    await tick()
+    expect(calls).toBe(afterDispose)
+
+    // The cached entry expired, so mounting again starts from scratch
+    const disposeAgain = render(f(Poller), container)
+    expect(calls).toBe(afterDispose + 1)
+    expect(container.textContent).toBe('undefined')
+    disposeAgain()
+  })
+})
+
+describe('useMutation()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should apply optimistic writes and roll them back on failure', async () => {
+    const errors: unknown[] = []
+    let addTodo!: (todo: string) => Promise<undefined | void>
+    let status = ''
+
+    function Todos() {
+      const [todos] = use(['write tests'], { key: ['mutation', 'todos'] })
+      const [mutate, state] = useMutation(
+        async (_todo: string) => {
+          await new Promise((r) => setTimeout(r, 10))
+          throw new Error('offline')
+        },
+        {
+          onMutate: (todo, { set }) => {
+            set<string[]>(['mutation', 'todos'], (prev) => [...prev, todo])
+            return { todo }
+          },
+          onError: (err, _todo, context) => {
+            errors.push([(err as Error).message, context])
+          },
+        }
+      )
+      addTodo = mutate
+      status = state.status
+      return f('span', {}, todos.join(','))
+    }
+
+    render(f(Todos), container)
+
+    const result = addTodo('ship it')
+    await new Promise((r) => setTimeout(r, 0))
+    expect(container.textContent).toBe('write tests,ship it')
+
+    expect(await result).toBeUndefined()
+    await tick()
+    expect(container.textContent).toBe('write tests')
+    expect(status).toBe('error')
+    expect(errors).toEqual([['offline', { todo: 'ship it' }]])
+  })
+
+  it('should expose data on success and invalidate keyed queries', async () => {
+    let fetches = 0
+    let rename!: (name: string) => Promise<string | undefined>
+    const settled: unknown[] = []
+
+    function Profile() {
+      const [name] = use(() => Promise.resolve(`user ${++fetches}`), {
+        key: ['mutation', 'profile'],
+      })
+      const [mutate, { data, status }] = useMutation(
+        (next: string) => Promise.resolve(next.toUpperCase()),
+        {
+          onSettled: (result, error) => {
+            settled.push([result, error])
+          },
+          invalidates: [['mutation']],
+        }
+      )
+      rename = mutate
+      return f('span', {}, `${name ?? '...'} ${status} ${data ?? ''}`)
+    }
+
+    render(f(Profile), container)
+    await tick()
+    expect(container.textContent).toBe('user 1 idle ')
+
+    expect(await rename('ann')).toBe('ANN')
+    await tick()
+    expect(fetches).toBe(2)
+    expect(settled).toEqual([['ANN', null]])
+    expect(container.textContent).toBe('user 2 success ANN')
+  })
+
+  it('should report errors thrown by callbacks instead of rejecting', async () => {
+    const uncaught: unknown[] = []
+    const stop = onUncaughtError((error) =>
+      uncaught.push((error as Error).message)
+    )
+    let save!: () => Promise<string | undefined>
+    const settled: (string | undefined)[] = []
+
+    function Saver() {
+      const [mutate] = useMutation(() => Promise.resolve('saved'), {
+        onSuccess: () => {
+          throw new Error('onSuccess failed')
+        },
+        onSettled: (data) => {
+          settled.push(data)
+        },
+      })
+      save = mutate
+      return null
+    }
+
+    render(f(Saver), container)
+    expect(await save()).toBe('saved')
+    expect(uncaught).toEqual(['onSuccess failed'])
+    expect(settled).toEqual(['saved'])
+    stop()
+  })
+})
+
+describe('Persisted state', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should restore from localStorage, migrate old versions and write back', async () => {
+    localStorage.setItem(
+      'prefs',
+      JSON.stringify({ version: 1, value: { dark: true } })
+    )
+    let setPrefs!: (value: { theme: string }) => void
+
+    function Prefs() {
+      const [prefs, set] = use(
+        { theme: 'light' },
+        {
+          key: ['persist', 'prefs'],
+          persist: {
+            storageKey: 'prefs',
+            version: 2,
+            migrate: (old: { dark: boolean }) => ({
+              theme: old.dark ? 'dark' : 'light',
+            }),
+          },
+        }
+      )
+      setPrefs = set
+      return f('span', {}, prefs.theme)
+    }
+
+    render(f(Prefs), container)
+    expect(container.textContent).toBe('dark')
+
+    setPrefs({ theme: 'sepia' })
+    await tick()
+    expect(stored('prefs')).toEqual({ version: 2, value: { theme: 'sepia' } })
+  })
+
+  it('should save values edited in place', async () => {
+    let todos!: string[]
+
+    function Todos() {
+      const [list] = use<string[]>([], {
+        key: ['persist', 'todos'],
+        persist: { storageKey: 'todos' },
+      })
+      todos = list
+      return f('span', {}, list.length)
+    }
+
+    render(f(Todos), container)
+    todos.push('write tests')
+    await tick()
+    expect(stored('todos')).toEqual({ version: 0, value: ['write tests'] })
+  })
+
+  it('should sync through custom adapters and across tabs', async () => {
+    let notify!: (value: string | null) => void
+    const writes: string[] = []
+    const adapter = {
+      get: () => Promise.resolve(JSON.stringify({ version: 0, value: 5 })),
+      set: (_key: string, value: string) => {
+        writes.push(value)
+      },
+      subscribe: (_key: string, callback: (value: string | null) => void) => {
+        notify = callback
+        return () => {}
+      },
+    }
+
+    function Counter() {
+      const [count] = use(0, {
+        key: ['persist', 'count'],
+        persist: { storage: adapter, sync: true },
+      })
+      return f('span', {}, count)
+    }
+
+    render(f(Counter), container)
+    expect(container.textContent).toBe('0')
+    await tick()
+    expect(container.textContent).toBe('5')
+
+    notify(JSON.stringify({ version: 0, value: 6 }))
+    await tick()
+    expect(container.textContent).toBe('6')
+
+    const otherTab = new BroadcastChannel('flexium:["persist","count"]')
+    otherTab.postMessage(JSON.stringify({ version: 0, value: 7 }))
+    await tick()
+    otherTab.close()
+    expect(container.textContent).toBe('7')
+    // Values coming from storage or other tabs aren't written back
+    expect(writes).toEqual([])
+  })
+
+  it('should write migrated values back and survive failing migrations', () => {
+    localStorage.setItem('good', JSON.stringify({ version: 0, value: 1 }))
+    localStorage.setItem('bad', JSON.stringify({ version: 0, value: 1 }))
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    function Values() {
+      const [good] = use(0, {
+        key: ['persist', 'good'],
+        persist: {
+          storageKey: 'good',
+          version: 1,
+          migrate: (old: number) => old * 10,
+        },
+      })
+      const [bad] = use(0, {
+        key: ['persist', 'bad'],
+        persist: {
+          storageKey: 'bad',
+          version: 1,
+          migrate: () => {
+            throw new Error('corrupt')
+          },
+        },
+      })
+      return f('span', {}, `${good} ${bad}`)
+    }
+
+    render(f(Values), container)
+    expect(container.textContent).toBe('10 0')
+    expect(stored('good')).toEqual({ version: 1, value: 10 })
+    expect(warn).toHaveBeenCalledTimes(1)
+    warn.mockRestore()
+  })
+
+  it('should report failed writes of async adapters', async () => {
+    const errors: unknown[] = []
+    const off = onUncaughtError((error) => errors.push(error))
+    let setCount!: (value: number) => void
+    const adapter = {
+      get: () => null,
+      set: () => Promise.reject(new Error('quota')),
+    }
+
+    function Counter() {
+      const [count, set] = use(0, {
+        key: ['persist', 'failing'],
+        persist: { storage: adapter },
+      })
+      setCount = set
+      return f('span', {}, count)
+    }
+
+    render(f(Counter), container)
+    setCount(1)
+    await tick()
+    off()
+    expect(container.textContent).toBe('1')
+    expect(errors).toEqual([new Error('quota')])
+  })
+})
+
+describe('history() & snapshots', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should undo and redo sync() batches as single steps', async () => {
+    let setTitle!: (value: string) => void
+    let setBody!: (value: string) => void
+    const doc = history([['history', 'doc']])
+
+    function Editor() {
+      const [title, writeTitle] = use('Draft', {
+        key: ['history', 'doc', 'title'],
+      })
+      const [body, writeBody] = use('', { key: ['history', 'doc', 'body'] })
+      setTitle = writeTitle
+      setBody = writeBody
+      return f('span', {}, `${title}: ${body}`)
+    }
+
+    render(f(Editor), container)
+    expect(doc.canUndo).toBe(false)
+
+    sync(() => {
+      setTitle('Notes')
+      setBody('hello')
+    })
+    setBody('hello world')
+    await tick()
+    expect(container.textContent).toBe('Notes: hello world')
+
+    doc.undo()
+    expect(container.textContent).toBe('Notes: hello')
+    doc.undo()
+    expect(container.textContent).toBe('Draft: ')
+    expect(doc.canUndo).toBe(false)
+
+    doc.redo()
+    expect(container.textContent).toBe('Notes: hello')
+    expect(doc.canRedo).toBe(true)
+
+    // A new change drops the redo stack
+    setTitle('Ideas')
+    await tick()
+    expect(doc.canRedo).toBe(false)
+    doc.dispose()
+  })
+
+  it('should merge changes within groupWithin and respect limit', async () => {
+    let setText!: (value: string) => void
+
+    function Input() {
+      const [text, write] = use('', { key: ['history', 'text'] })
+      setText = write
+      return f('span', {}, text)
+    }
+
+    render(f(Input), container)
+    const typing = history([['history', 'text']], {
+      groupWithin: 1000,
+      limit: 1,
+    })
+
+    for (const text of ['h', 'hi', 'hi!']) {
+      setText(text)
+      await new Promise((r) => setTimeout(r, 0))
+    }
+
+    typing.undo()
+    expect(container.textContent).toBe('')
+    expect(typing.canUndo).toBe(false)
+    typing.dispose()
+  })
+
+  it('should snapshot and restore keyed state', () => {
+    let setCount!: (value: number) => void
+
+    function Counter() {
+      const [count, write] = use(0, { key: ['snapshot', 'count'] })
+      setCount = write
+      return f('span', {}, count)
+    }
+
+    render(f(Counter), container)
+    setCount(3)
+    const snapshot = snapshotState()
+    expect(snapshot['["snapshot","count"]']).toBe(3)
+
+    setCount(10)
+    restoreState({ ...snapshot, '["snapshot","later"]': 'restored' })
+    expect(container.textContent).toBe('3')
+
+    function Later() {
+      const [value] = use('initial', { key: ['snapshot', 'later'] })
+      return f('span', {}, value)
+    }
+
+    const other = document.createElement('div')
+    render(f(Later), other)
+    expect(other.textContent).toBe('restored')
+  })
+})
+
+describe('createStore()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  const createCart = (options = {}) =>
+    createStore(
+      { items: [] as string[], total: 0, note: '' },
+      {
+        add(state, item: string, price: number) {
+          state.items.push(item)
+          state.total += price
+        },
+        setNote(state, note: string) {
+          state.note = note
+        },
+      },
+      options
+    )
+
+  it('should re-render selector users only when their slice changes', async () => {
+    const cart = createCart()
+    let renders = 0
+
+    function Total() {
+      const [total, { add }] = use(cart, (s) => s.total)
+      renders++
+      return f('button', { onclick: () => add('pen', 2) }, total)
+    }
+
+    function Items() {
+      const [state] = use(cart)
+      return f('span', {}, state.items.join(','))
+    }
+
+    render(f('div', {}, [f(Total), f(Items)]), container)
+    expect(container.textContent).toBe('0')
+
+    cart.actions.setNote('gift')
+    await tick()
+    expect(renders).toBe(1)
+
+    container.querySelector('button')?.click()
+    await tick()
+    expect(container.textContent).toBe('2pen')
+    expect(renders).toBe(2)
+  })
+
+  it('should run middleware around actions and support $subscribe/$reset', () => {
+    const order: string[] = []
+    const logs: unknown[] = []
+    const cart = createCart({
+      name: 'cart',
+      middleware: [
+        storeLogger((...args) => logs.push(args)),
+        () => (call: { action: string }, next: () => unknown) => {
+          order.push(`before ${call.action}`)
+          const result = next()
+          order.push(`after ${call.action}`)
+          return result
+        },
+      ],
+    })
+    const calls: string[] = []
+    const stop = cart.$subscribe((call) => calls.push(call.action))
+
+    cart.actions.add('book', 12)
+    expect(order).toEqual(['before add', 'after add'])
+    expect(logs).toEqual([
+      ['[cart] add', ['book', 12], { items: ['book'], total: 12, note: '' }],
+    ])
+
+    cart.$reset()
+    expect(cart.state.items).toEqual([])
+    expect(cart.state.total).toBe(0)
+    expect(calls).toEqual(['add', '$reset'])
+
+    stop()
+    cart.actions.setNote('x')
+    expect(calls).toEqual(['add', '$reset'])
+  })
+
+  it('should persist state through the persist middleware', () => {
+    localStorage.setItem(
+      'cart',
+      JSON.stringify({
+        version: 0,
+        value: { items: ['mug'], total: 8, note: '' },
+      })
+    )
+    const cart = createCart({
+      middleware: [persistStore({ storageKey: 'cart' })],
+    })
+    expect(cart.state.total).toBe(8)
+
+    cart.actions.add('tea', 4)
+    expect(stored('cart').value).toEqual({
+      items: ['mug', 'tea'],
+      total: 12,
+      note: '',
+    })
+
+    // Unnamed stores would all share one storage key
+    expect(() => createCart({ middleware: [persistStore()] })).toThrow(
+      /storageKey/
+    )
+    createCart({ name: 'wishlist', middleware: [persistStore()] }).actions.add(
+      'pen',
+      2
+    )
+    expect(stored('store:wishlist').value).toMatchObject({ total: 2 })
+  })
+})
+
+describe('Transitions', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should render urgent updates before deferred transition updates', async () => {
+    let setQuery!: (value: string) => void
+    let setFilter!: (value: string) => void
+    let start!: (fn: () => void) => Promise<void>
+    let pending = false
+
+    function Input() {
+      const [query, write] = use('')
+      const [isPending, startTransition] = useTransition()
+      setQuery = write
+      start = startTransition
+      pending = isPending
+      return f('input', { value: query })
+    }
+
+    function Results() {
+      const [filter, write] = use('')
+      setFilter = write
+      return f('p', {}, `results for ${filter}`)
+    }
+
+    render(f('div', {}, [f(Input), f(Results)]), container)
+
+    setQuery('ab')
+    const done = start(() => setFilter('ab'))
+
+    // Microtask flush: urgent work only
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(container.querySelector('input')?.value).toBe('ab')
+    expect(container.querySelector('p')?.textContent).toBe('results for ')
+    expect(pending).toBe(true)
+
+    await done
+    await tick()
+    expect(container.querySelector('p')?.textContent).toBe('results for ab')
+    expect(pending).toBe(false)
+  })
+
+  it('should flush transitions with sync()', () => {
+    let setCount!: (value: number) => void
+
+    function Counter() {
+      const [count, write] = use(0)
+      setCount = write
+      return f('span', {}, count)
+    }
+
+    render(f(Counter), container)
+    void startTransition(() => setCount(5))
+    expect(container.textContent).toBe('0')
+
+    sync()
+    expect(container.textContent).toBe('5')
+  })
+})
+
+describe('createMachine()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should transition through nested states with guards and actions', async () => {
+    type Event =
+      | { type: 'NEXT' }
+      | { type: 'BACK' }
+      | { type: 'PAY'; card: string }
+    const checkout = createMachine<{ card: string; visits: number }, Event>({
+      initial: 'cart',
+      context: { card: '', visits: 0 },
+      guards: { hasCard: (_, e) => e.type === 'PAY' && e.card.length > 0 },
+      states: {
+        cart: {
+          entry: (ctx) => ({ visits: ctx.visits + 1 }),
+          on: { NEXT: 'checkout' },
+        },
+        checkout: {
+          initial: 'address',
+          on: { BACK: 'cart' },
+          states: {
+            address: { on: { NEXT: 'payment' } },
+            payment: {
+              on: {
+                PAY: {
+                  target: 'done',
+                  guard: 'hasCard',
+                  actions: (_, e) => ({ card: e.card }),
+                },
+              },
+            },
+          },
+        },
+        done: { type: 'final' },
+      },
+    })
+
+    let send!: (event: Event | Event['type']) => void
+
+    function Checkout() {
+      const [state, sendEvent] = use(checkout)
+      send = sendEvent
+      return f('div', { 'data-testid': 'state' }, JSON.stringify(state.value))
+    }
+
+    render(f(Checkout), container)
+    const text = () =>
+      container.querySelector('[data-testid="state"]')?.textContent
+
+    expect(text()).toBe('"cart"')
+    send('NEXT')
+    send('NEXT')
+    await tick()
+    expect(text()).toBe('{"checkout":"payment"}')
+    expect(checkout.getSnapshot().matches('checkout.payment')).toBe(true)
+
+    send({ type: 'PAY', card: '' })
+    expect(checkout.getSnapshot().matches('checkout.payment')).toBe(true)
+
+    send('BACK')
+    expect(checkout.getSnapshot().context.visits).toBe(2)
+
+    send('NEXT')
+    send('NEXT')
+    send({ type: 'PAY', card: '4242' })
+    await tick()
+    expect(text()).toBe('"done"')
+    expect(checkout.getSnapshot().done).toBe(true)
+    expect(checkout.getSnapshot().context.card).toBe('4242')
+  })
+
+  it('should run delayed transitions, parallel states and invoked services', async () => {
+    let resolve!: (user: string) => void
+    const connection = createMachine<{ user: string }>({
+      type: 'parallel',
+      context: { user: '' },
+      states: {
+        socket: {
+          initial: 'connecting',
+          states: {
+            connecting: { after: { 10: 'online' } },
+            online: {},
+          },
+        },
+        session: {
+          initial: 'loading',
+          states: {
+            loading: {
+              invoke: {
+                src: () =>
+                  new Promise<string>((r) => {
+                    resolve = r
+                  }),
+                onDone: {
+                  target: 'ready',
+                  actions: (_, e) => ({ user: e.data as string }),
+                },
+              },
+            },
+            ready: {},
+          },
+        },
+      },
+    })
+
+    function Status() {
+      const [state] = use(connection)
+      return f('div', {}, JSON.stringify(state.value))
+    }
+
+    render(f(Status), container)
+    expect(container.textContent).toBe(
+      '{"socket":"connecting","session":"loading"}'
+    )
+
+    await tick()
+    expect(container.textContent).toBe(
+      '{"socket":"online","session":"loading"}'
+    )
+
+    resolve('ada')
+    await tick()
+    expect(container.textContent).toBe('{"socket":"online","session":"ready"}')
+    expect(connection.getSnapshot().context.user).toBe('ada')
+  })
+
+  it('should run delayed transitions in the lane that entered the state', async () => {
+    const lanes: string[] = []
+    const job = createMachine({
+      initial: 'idle',
+      states: {
+        idle: { on: { START: 'running' } },
+        running: { after: { 10: 'finished' } },
+        finished: {
+          entry: () => {
+            lanes.push(getCurrentPriority())
+          },
+        },
+      },
+    })
+
+    function Job() {
+      const [state] = use(job)
+      return f('span', {}, String(state.value))
+    }
+
+    render(f(Job), container)
+    void startTransition(() => job.send('START'))
+    await tick()
+    expect(lanes).toEqual(['transition'])
+    expect(container.textContent).toBe('finished')
+  })
+
+  it('should stop timers and services once the last consumer unmounts', async () => {
+    let signal!: AbortSignal
+    const poll = createMachine({
+      type: 'parallel',
+      states: {
+        timer: {
+          initial: 'waiting',
+          states: { waiting: { after: { 10: 'expired' } }, expired: {} },
+        },
+        request: {
+          initial: 'loading',
+          states: {
+            loading: {
+              invoke: {
+                src: (_, s) => {
+                  signal = s
+                  return new Promise(() => {})
+                },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    function Poll() {
+      const [state] = use(poll)
+      return f('span', {}, JSON.stringify(state.value))
+    }
+
+    const dispose = render(f(Poll), container)
+    const disposeOther = render(f(Poll), document.createElement('div'))
+    dispose()
+    expect(signal.aborted).toBe(false)
+
+    disposeOther()
+    expect(signal.aborted).toBe(true)
+    await tick()
+    expect(poll.getSnapshot().matches('timer.waiting')).toBe(true)
+  })
+
+  it('should serialize and restore its state', () => {
+    const toggle = createMachine<{ count: number }>({
+      initial: 'off',
+      context: { count: 0 },
+      states: {
+        off: {
+          on: {
+            TOGGLE: {
+              target: 'on',
+              actions: (ctx) => ({ count: ctx.count + 1 }),
+            },
+          },
+        },
+        on: { on: { TOGGLE: 'off' } },
+      },
+    })
+
+    toggle.send('TOGGLE')
+    const json = JSON.parse(JSON.stringify(toggle)) as MachineSnapshot<{
+      count: number
+    }>
+    expect(json).toEqual({ value: 'on', context: { count: 1 } })
+
+    const copy = createMachine<{ count: number }>({
+      initial: 'off',
+      context: { count: 0 },
+      states: { off: {}, on: {} },
+    })
+    copy.restore(json)
+    expect(copy.getSnapshot().matches('on')).toBe(true)
+    expect(copy.getSnapshot().context.count).toBe(1)
+  })
+})
+
+describe('useForm()', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should bind fields and validate on blur', async () => {
+    let form!: ReturnType<typeof useForm<{ email: string; agree: boolean }>>
+
+    function Signup() {
+      form = useForm<{ email: string; agree: boolean }>({
+        initialValues: { email: '', agree: false },
+        validate: (values) => ({
+          email: values.email.includes('@') ? undefined : 'Invalid email',
+        }),
+      })
+      const email = form.register('email')
+      return f('div', {}, [
+        f('input', { ...email }),
+        f('input', { type: 'checkbox', ...form.register('agree') }),
+        f('span', {}, email.error ?? ''),
+      ])
+    }
+
+    render(f(Signup), container)
+    const [input, checkbox] = Array.from(container.querySelectorAll('input'))
+
+    input.value = 'ada'
+    input.dispatchEvent(new Event('input'))
+    await tick()
+    expect(form.values.email).toBe('ada')
+    expect(form.isDirty).toBe(true)
+    // Not shown before the field is touched
+    expect(container.querySelector('span')?.textContent).toBe('')
+
+    input.dispatchEvent(new Event('blur'))
+    await tick()
+    expect(container.querySelector('span')?.textContent).toBe('Invalid email')
+
+    checkbox.checked = true
+    checkbox.dispatchEvent(new Event('change'))
+    expect(form.values.agree).toBe(true)
+    expect(Object.keys(form.register('agree'))).toEqual([
+      'name',
+      'onInput',
+      'onChange',
+      'onBlur',
+      'checked',
+    ])
+  })
+
+  it('should submit with schema and async validation', async () => {
+    const schema = {
+      '~standard': {
+        validate: (value: unknown) =>
+          (value as { name?: string }).name
+            ? { value }
+            : { issues: [{ message: 'Required', path: ['name'] }] },
+      },
+    }
+    const taken = ['ada']
+    const form = useForm({
+      initialValues: { name: '' },
+      schema,
+      validate: async (values) => {
+        await Promise.resolve()
+        return { name: taken.includes(values.name) ? 'Taken' : undefined }
+      },
+    })
+    const saved: unknown[] = []
+    const submit = form.handleSubmit((values) => {
+      expect(form.isSubmitting).toBe(true)
+      saved.push(values)
+    })
+
+    await submit()
+    expect(form.errors.name).toBe('Required')
+    expect(form.register('name').error).toBe('Required')
+
+    form.setValue('name', 'ada')
+    await submit()
+    expect(form.errors.name).toBe('Taken')
+
+    form.setValue('name', 'grace')
+    await submit()
+    expect(saved).toEqual([{ name: 'grace' }])
+    expect(form.isSubmitting).toBe(false)
+    expect(form.submitCount).toBe(3)
+
+    form.reset()
+    expect(form.values.name).toBe('')
+    expect(form.errors).toEqual({})
+    expect(form.submitCount).toBe(0)
+  })
+
+  it('should keep field array keys with their items', () => {
+    const form = useForm({ initialValues: { tags: ['a', 'b'] } })
+    const tags = form.array<string>('tags')
+
+    const [a, b] = tags.fields
+    tags.prepend('z')
+    tags.move(2, 0)
+    expect(form.values.tags).toEqual(['b', 'z', 'a'])
+    expect(tags.fields.map((field) => field.key)).toEqual([
+      b.key,
+      tags.fields[1].key,
+      a.key,
+    ])
+    expect(tags.fields[0].name).toBe('tags.0')
+
+    tags.remove(1)
+    tags.append('c')
+    expect(form.values.tags).toEqual(['b', 'a', 'c'])
+    expect(form.register('tags.2').value).toBe('c')
+  })
 })
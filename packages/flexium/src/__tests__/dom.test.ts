@@ -1,11 +1,25 @@
 /**
  * DOM API Tests
  *
- * Tests for: f, render, Suspense, lazy, ErrorBoundary
+ * Tests for: f, render, For, Show, Switch/Match, Dynamic, Fragment, Suspense, lazy,
+ * ErrorBoundary, onMount/onUnmount/onUpdate
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { render, f, Suspense, lazy, ErrorBoundary } from '../dom'
-import { use } from '../core'
+import {
+  render,
+  f,
+  For,
+  Show,
+  Switch,
+  Match,
+  Dynamic,
+  Fragment,
+  Suspense,
+  lazy,
+  ErrorBoundary,
+} from '../dom'
+import { use, onMount, onUnmount, onUpdate } from '../core'
+import { reactive } from '../core/reactive'
 
 const tick = () => new Promise(r => setTimeout(r, 50))
 
@@ -133,17 +147,27 @@ describe('render()', () => {
 
       return f('div', {}, [
         f('span', { 'data-testid': 'text' }, text),
-        f('button', { 'data-testid': 'update', onclick: () => setText('Updated') }, 'Update')
+        f(
+          'button',
+          { 'data-testid': 'update', onclick: () => setText('Updated') },
+          'Update'
+        ),
       ])
     }
 
     render(f(App), container)
-    expect(container.querySelector('[data-testid="text"]')?.textContent).toBe('Initial')
+    expect(container.querySelector('[data-testid="text"]')?.textContent).toBe(
+      'Initial'
+    )
 
-    container.querySelector<HTMLButtonElement>('[data-testid="update"]')?.click()
+    container
+      .querySelector<HTMLButtonElement>('[data-testid="update"]')
+      ?.click()
     await tick()
 
-    expect(container.querySelector('[data-testid="text"]')?.textContent).toBe('Updated')
+    expect(container.querySelector('[data-testid="text"]')?.textContent).toBe(
+      'Updated'
+    )
   })
 
   it('should handle conditional rendering', async () => {
@@ -152,14 +176,20 @@ describe('render()', () => {
 
       return f('div', {}, [
         show ? f('span', { 'data-testid': 'content' }, 'Visible') : null,
-        f('button', { 'data-testid': 'toggle', onclick: () => setShow(!show) }, 'Toggle')
+        f(
+          'button',
+          { 'data-testid': 'toggle', onclick: () => setShow(!show) },
+          'Toggle'
+        ),
       ])
     }
 
     render(f(App), container)
     expect(container.querySelector('[data-testid="content"]')).not.toBeNull()
 
-    container.querySelector<HTMLButtonElement>('[data-testid="toggle"]')?.click()
+    container
+      .querySelector<HTMLButtonElement>('[data-testid="toggle"]')
+      ?.click()
     await tick()
 
     expect(container.querySelector('[data-testid="content"]')).toBeNull()
@@ -170,24 +200,848 @@ describe('render()', () => {
       const [items, setItems] = use(['A', 'B', 'C'])
 
       return f('div', {}, [
-        f('ul', {},
+        f(
+          'ul',
+          {},
           items.map((item, i) => f('li', { key: item }, item))
         ),
-        f('button', {
-          'data-testid': 'reverse',
-          onclick: () => setItems([...items].reverse())
-        }, 'Reverse')
+        f(
+          'button',
+          {
+            'data-testid': 'reverse',
+            onclick: () => setItems([...items].reverse()),
+          },
+          'Reverse'
+        ),
       ])
     }
 
     render(f(App), container)
     expect(container.querySelectorAll('li')[0].textContent).toBe('A')
 
-    container.querySelector<HTMLButtonElement>('[data-testid="reverse"]')?.click()
+    container
+      .querySelector<HTMLButtonElement>('[data-testid="reverse"]')
+      ?.click()
     await tick()
 
     expect(container.querySelectorAll('li')[0].textContent).toBe('C')
   })
+
+  it('should stop component effects and run cleanups on dispose', async () => {
+    const store = reactive({ count: 0 })
+    const cleanups: string[] = []
+    let renders = 0
+
+    function Child() {
+      renders++
+      use(({ onCleanup }) => {
+        onCleanup(() => cleanups.push('child'))
+      }, [])
+      return f('span', {}, String(store.count))
+    }
+
+    function App() {
+      return f('div', {}, [f(Child)])
+    }
+
+    const dispose = render(f(App), container)
+    expect(renders).toBe(1)
+
+    store.count++
+    await tick()
+    expect(renders).toBe(2)
+
+    dispose()
+    expect(cleanups).toEqual(['child'])
+
+    store.count++
+    await tick()
+    expect(renders).toBe(2)
+  })
+
+  it('should dispose a child that is no longer rendered', async () => {
+    const store = reactive({ ticks: 0 })
+    let setShow: (show: boolean) => void = () => {}
+    let tickerRuns = 0
+
+    function Ticker() {
+      const [label] = use(() => {
+        tickerRuns++
+        return `tick ${store.ticks}`
+      })
+      return f('span', {}, label)
+    }
+
+    function App() {
+      const [show, set] = use(true)
+      setShow = set
+      return f('div', {}, [show ? f(Ticker) : f('span', {}, 'off')])
+    }
+
+    render(f(App), container)
+    expect(container.textContent).toBe('tick 0')
+
+    setShow(false)
+    await tick()
+    expect(container.textContent).toBe('off')
+
+    const runs = tickerRuns
+    store.ticks++
+    await tick()
+    expect(tickerRuns).toBe(runs)
+  })
+  it('should update function children without re-rendering the component', async () => {
+    const store = reactive({ count: 0 })
+    let renders = 0
+
+    function Counter() {
+      renders++
+      return f('p', {}, 'Count: ', () => store.count)
+    }
+
+    render(f(Counter), container)
+    const p = container.querySelector('p') as HTMLParagraphElement
+    const text = p.lastChild
+    expect(p.textContent).toBe('Count: 0')
+
+    store.count++
+    await tick()
+    expect(p.textContent).toBe('Count: 1')
+    expect(p.lastChild).toBe(text)
+    expect(renders).toBe(1)
+  })
+
+  it('should keep the state of anonymous components reordered with function children', async () => {
+    const store = reactive({ reversed: false, label: 'label' })
+    let increment!: () => void
+    // Inline components have no name, like function children
+    const counter = [
+      function () {
+        const [count, setCount] = use(0)
+        increment = () => setCount((c) => c + 1)
+        return f('b', {}, String(count))
+      },
+    ][0]
+
+    function App() {
+      const children = [f(counter), () => store.label]
+      return f('div', {}, store.reversed ? children.reverse() : children)
+    }
+
+    render(f(App), container)
+    increment()
+    await tick()
+    expect(container.textContent).toBe('1label')
+
+    store.reversed = true
+    await tick()
+    expect(container.textContent).toBe('label1')
+
+    increment()
+    await tick()
+    expect(container.textContent).toBe('label2')
+  })
+
+  it('should bind function props to their attribute', async () => {
+    const store = reactive({ active: false, other: 0 })
+    let renders = 0
+    let reads = 0
+
+    function Tab() {
+      renders++
+      const className = () => {
+        reads++
+        return store.active ? 'tab active' : 'tab'
+      }
+      return f('button', { class: className }, 'Tab ', String(store.other))
+    }
+
+    render(f(Tab), container)
+    const button = container.querySelector('button') as HTMLButtonElement
+    expect(button.className).toBe('tab')
+
+    store.active = true
+    await tick()
+    expect(button.className).toBe('tab active')
+    expect(renders).toBe(1)
+
+    // After a re-render the kept element follows the new binding only
+    store.other++
+    await tick()
+    expect(container.querySelector('button')).toBe(button)
+    reads = 0
+    store.active = false
+    await tick()
+    expect(button.className).toBe('tab')
+    expect(reads).toBe(1)
+    expect(renders).toBe(2)
+  })
+})
+
+describe('Lifecycle hooks', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should mount children first, once their nodes are in the document', () => {
+    const calls: string[] = []
+
+    function Child() {
+      onMount(() => {
+        calls.push(
+          `child mounted: ${container.contains(document.getElementById('child'))}`
+        )
+        return () => calls.push('child mount cleanup')
+      })
+      onUnmount(() => calls.push('child unmounted'))
+      return f('span', { id: 'child' })
+    }
+
+    function Parent() {
+      onMount(() => {
+        calls.push('parent mounted')
+      })
+      onUnmount(() => calls.push('parent unmounted'))
+      return f('div', {}, f(Child))
+    }
+
+    const dispose = render(f(Parent), container)
+    expect(calls).toEqual(['child mounted: true', 'parent mounted'])
+
+    calls.length = 0
+    dispose()
+    expect(calls).toEqual([
+      'child mount cleanup',
+      'child unmounted',
+      'parent unmounted',
+    ])
+  })
+
+  it('should run onUpdate after re-renders with the DOM updated', async () => {
+    const state = reactive({ count: 0 })
+    const updates: string[] = []
+
+    function Counter() {
+      onUpdate(() => {
+        updates.push(container.textContent)
+      })
+      return f('span', {}, String(state.count))
+    }
+
+    render(f(Counter), container)
+    expect(updates).toEqual([])
+
+    state.count++
+    await tick()
+    expect(updates).toEqual(['1'])
+  })
+
+  it('should mount and unmount components that come and go in a re-render', async () => {
+    const state = reactive({ show: false })
+    const calls: string[] = []
+
+    function Panel() {
+      onMount(() => {
+        calls.push(`mounted: ${document.getElementById('panel')?.isConnected}`)
+        return () => calls.push('cleanup')
+      })
+      return f('p', { id: 'panel' })
+    }
+
+    function App() {
+      return f('div', {}, state.show ? f(Panel) : null)
+    }
+
+    render(f(App), container)
+
+    state.show = true
+    await tick()
+    expect(calls).toEqual(['mounted: true'])
+
+    state.show = false
+    await tick()
+    expect(calls).toEqual(['mounted: true', 'cleanup'])
+  })
+})
+
+describe('Keyed reconciliation', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should move keyed elements instead of rewriting them', async () => {
+    const state = reactive({ ids: [1, 2, 3, 4] })
+
+    function List() {
+      return f(
+        'ul',
+        {},
+        state.ids.map((id) =>
+          f('li', { key: id }, f('input', { value: String(id) }))
+        )
+      )
+    }
+
+    render(f(List), container)
+    const before = Array.from(container.querySelectorAll('li'))
+    const input = container.querySelectorAll('input')[2]
+    input.focus()
+
+    state.ids = [4, 1, 3]
+    await tick()
+
+    const after = Array.from(container.querySelectorAll('li'))
+    expect(after).toEqual([before[3], before[0], before[2]])
+    expect(document.activeElement).toBe(input)
+  })
+
+  it('should keep the state of child components when the parent re-renders', async () => {
+    const state = reactive({ label: 'a' })
+    let setCount!: (value: number) => void
+
+    function Counter() {
+      const [count, set] = use(0)
+      setCount = set
+      return f('b', {}, String(count))
+    }
+
+    function Parent() {
+      return f(
+        'div',
+        {},
+        f('span', {}, state.label),
+        f('section', {}, f(Counter))
+      )
+    }
+
+    render(f(Parent), container)
+    setCount(5)
+    await tick()
+    state.label = 'b'
+    await tick()
+
+    expect(container.textContent).toBe('b5')
+  })
+})
+
+describe('Events', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should delegate handlers to the render root', () => {
+    const calls: string[] = []
+    const addListener = vi.spyOn(
+      HTMLButtonElement.prototype,
+      'addEventListener'
+    )
+
+    render(
+      f(
+        'div',
+        {
+          onClick: (e: Event) =>
+            calls.push(`div:${(e.currentTarget as Element).tagName}`),
+        },
+        f('button', { onclick: () => calls.push('button') }, 'Go')
+      ),
+      container
+    )
+
+    container.querySelector('button')?.click()
+    expect(calls).toEqual(['button', 'div:DIV'])
+    expect(addListener).not.toHaveBeenCalled()
+    addListener.mockRestore()
+  })
+
+  it('should run capture handlers first and honour stopPropagation', () => {
+    const calls: string[] = []
+
+    render(
+      f(
+        'div',
+        {
+          onClickCapture: () => calls.push('capture'),
+          onClick: () => calls.push('outer'),
+        },
+        f(
+          'button',
+          {
+            onClick: (e: Event) => {
+              calls.push('button')
+              e.stopPropagation()
+            },
+          },
+          'Go'
+        )
+      ),
+      container
+    )
+
+    container.querySelector('button')?.click()
+    expect(calls).toEqual(['capture', 'button'])
+  })
+
+  it('should support once and passive modifiers and options objects', () => {
+    const calls: string[] = []
+    const addListener = vi.spyOn(HTMLDivElement.prototype, 'addEventListener')
+
+    render(
+      f('div', {
+        'onScroll:passive': () => calls.push('scroll'),
+        onClick: { handler: () => calls.push('click'), once: true },
+      }),
+      container
+    )
+
+    expect(addListener).toHaveBeenCalledWith('scroll', expect.any(Function), {
+      capture: false,
+      passive: true,
+      once: false,
+    })
+    addListener.mockRestore()
+
+    const div = container.querySelector('div') as HTMLDivElement
+    div.dispatchEvent(new Event('scroll'))
+    div.click()
+    div.click()
+    expect(calls).toEqual(['scroll', 'click'])
+  })
+
+  it('should call the latest handler after a re-render', async () => {
+    const state = reactive({ label: 'a' })
+    const calls: string[] = []
+
+    function App() {
+      const label = state.label
+      return f('button', { onClick: () => calls.push(label) }, label)
+    }
+
+    render(f(App), container)
+    const button = container.querySelector('button') as HTMLButtonElement
+    state.label = 'b'
+    await tick()
+
+    expect(container.querySelector('button')).toBe(button)
+    button.click()
+    expect(calls).toEqual(['b'])
+  })
+
+  it('should stop handling events on dispose', () => {
+    const onClick = vi.fn()
+    const dispose = render(f('button', { onClick }, 'Go'), container)
+    const button = container.querySelector('button') as HTMLButtonElement
+
+    dispose()
+    container.appendChild(button)
+    button.click()
+    expect(onClick).not.toHaveBeenCalled()
+  })
+})
+
+describe('SVG and MathML', () => {
+  const SVG = 'http://www.w3.org/2000/svg'
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should create SVG elements with their attributes', () => {
+    render(
+      f(
+        'svg',
+        { viewBox: '0 0 24 24', class: 'icon' },
+        f('use', { 'xlink:href': '#star' }),
+        f('circle', { cx: 12, cy: 12, r: 4 })
+      ),
+      container
+    )
+
+    const svg = container.querySelector('svg') as SVGSVGElement
+    expect(svg.namespaceURI).toBe(SVG)
+    expect(svg.getAttribute('viewBox')).toBe('0 0 24 24')
+    expect(svg.getAttribute('class')).toBe('icon')
+    expect(container.querySelector('circle')?.namespaceURI).toBe(SVG)
+    expect(container.querySelector('circle')?.getAttribute('r')).toBe('4')
+    expect(
+      container
+        .querySelector('use')
+        ?.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+    ).toBe('#star')
+  })
+
+  it('should switch back to HTML inside foreignObject and create MathML', () => {
+    render(
+      f(
+        'div',
+        {},
+        f('svg', {}, f('foreignObject', {}, f('p', {}, 'text'))),
+        f('math', {}, f('mi', {}, 'x'))
+      ),
+      container
+    )
+
+    expect(container.querySelector('p')?.namespaceURI).toBe(
+      'http://www.w3.org/1999/xhtml'
+    )
+    expect(container.querySelector('mi')?.namespaceURI).toBe(
+      'http://www.w3.org/1998/Math/MathML'
+    )
+  })
+
+  it('should keep the namespace when a component inside <svg> re-renders', async () => {
+    const state = reactive({ r: 4, href: '#a' })
+
+    function Dot() {
+      return f(
+        'g',
+        {},
+        f('circle', { r: state.r }),
+        f('use', { 'xlink:href': state.href })
+      )
+    }
+
+    render(f('svg', {}, f(Dot)), container)
+    const circle = container.querySelector('circle') as SVGCircleElement
+
+    state.r = 8
+    state.href = '#b'
+    await tick()
+
+    expect(container.querySelector('circle')).toBe(circle)
+    expect(circle.namespaceURI).toBe(SVG)
+    expect(circle.getAttribute('r')).toBe('8')
+    expect(
+      container
+        .querySelector('use')
+        ?.getAttributeNS('http://www.w3.org/1999/xlink', 'href')
+    ).toBe('#b')
+    expect(container.querySelector('use')?.attributes.length).toBe(1)
+  })
+})
+
+describe('For', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  it('should keep rows with their items and only render changed ones', async () => {
+    const state = reactive({
+      todos: [
+        { id: 1, text: 'a' },
+        { id: 2, text: 'b' },
+        { id: 3, text: 'c' },
+      ],
+    })
+    const rendered: string[] = []
+    const row = (todo: { id: number; text: string }) => {
+      rendered.push(todo.text)
+      return f('li', {}, todo.text)
+    }
+
+    function List() {
+      return f(
+        'ul',
+        {},
+        f(
+          For,
+          { each: state.todos, key: (todo: { id: number }) => todo.id },
+          row
+        )
+      )
+    }
+
+    render(f(List), container)
+    const [a, b, c] = Array.from(container.querySelectorAll('li'))
+    rendered.length = 0
+
+    state.todos = [state.todos[0], { id: 2, text: 'B' }, state.todos[2]]
+    await tick()
+    expect(rendered).toEqual(['B'])
+    expect(Array.from(container.querySelectorAll('li'))).toEqual([a, b, c])
+
+    state.todos = [state.todos[2], state.todos[0]]
+    await tick()
+    expect(container.querySelector('ul')?.textContent).toBe('ca')
+    expect(Array.from(container.querySelectorAll('li'))).toEqual([c, a])
+
+    // Moved rows render once, also when their item changed
+    rendered.length = 0
+    state.todos = [state.todos[1], { id: 3, text: 'C' }]
+    await tick()
+    expect(rendered.sort()).toEqual(['C', 'a'])
+    expect(container.querySelector('ul')?.textContent).toBe('aC')
+  })
+
+  it('should re-render rows for new indexes, not new render functions', async () => {
+    const state = reactive({ items: ['a', 'b', 'c'], suffix: '' })
+    const rendered: string[] = []
+
+    function List() {
+      const suffix = state.suffix
+      return f(
+        'ul',
+        {},
+        f(For, { each: state.items }, (item: string, index: number) => {
+          rendered.push(item)
+          return f('li', {}, `${index}${item}${suffix}`)
+        })
+      )
+    }
+
+    render(f(List), container)
+    rendered.length = 0
+
+    state.items = ['b', 'a', 'c']
+    await tick()
+    expect(rendered.sort()).toEqual(['a', 'b'])
+    expect(container.querySelector('ul')?.textContent).toBe('0b1a2c')
+
+    // Rows rendered later use the latest render function
+    rendered.length = 0
+    state.suffix = '!'
+    state.items = ['b', 'a', 'c', 'd']
+    await tick()
+    expect(rendered).toEqual(['d'])
+    expect(container.querySelector('ul')?.textContent).toBe('0b1a2c3d!')
+  })
+
+  it('should show the fallback for an empty list', async () => {
+    const state = reactive({ items: [] as string[] })
+
+    function List() {
+      return f(
+        'ul',
+        {},
+        f(
+          For,
+          { each: state.items, fallback: f('p', {}, 'Empty') },
+          (item: string) => f('li', {}, item)
+        )
+      )
+    }
+
+    render(f(List), container)
+    expect(container.textContent).toBe('Empty')
+
+    state.items = ['x', 'y']
+    await tick()
+    expect(container.querySelector('ul')?.innerHTML).toBe(
+      '<li>x</li><li>y</li>'
+    )
+  })
+})
+
+describe('Control flow', () => {
+  let container: HTMLDivElement
+
+  beforeEach(() => {
+    container = document.createElement('div')
+    document.body.appendChild(container)
+  })
+
+  afterEach(() => {
+    document.body.removeChild(container)
+  })
+
+  function Counter(props: { name: string }) {
+    const [count, setCount] = use(0)
+    return f(
+      'button',
+      { onClick: () => setCount(count + 1) },
+      `${props.name}:${count}`
+    )
+  }
+
+  it('should switch Show branches without re-rendering the parent or its siblings', async () => {
+    const state = reactive({ open: false })
+    const unmounted: string[] = []
+    let renders = 0
+
+    function Panel() {
+      onUnmount(() => unmounted.push('panel'))
+      return f('p', {}, 'Panel')
+    }
+
+    function App() {
+      renders++
+      return f('div', {}, [
+        f(
+          Show,
+          { when: () => state.open, fallback: f('i', {}, 'Closed') },
+          f(Panel)
+        ),
+        f(Counter, { name: 'b' }),
+      ])
+    }
+
+    render(f(App), container)
+    container.querySelector('button')?.click()
+    await tick()
+    const button = container.querySelector('button')
+
+    state.open = true
+    await tick()
+    expect(container.querySelector('div')?.innerHTML).toBe(
+      '<p>Panel</p><button>b:1</button>'
+    )
+    expect(container.querySelector('button')).toBe(button)
+
+    state.open = false
+    await tick()
+    expect(container.textContent).toBe('Closedb:1')
+    expect(unmounted).toEqual(['panel'])
+    expect(renders).toBe(1)
+  })
+
+  it('should re-create keyed Show children when the value changes', async () => {
+    const state = reactive({ user: { name: 'Ann' } as { name: string } | null })
+
+    function App() {
+      return f(
+        Show,
+        { when: () => state.user, keyed: true },
+        (user: { name: string }) => f(Counter, { name: user.name })
+      )
+    }
+
+    render(f(App), container)
+    container.querySelector('button')?.click()
+    await tick()
+    expect(container.textContent).toBe('Ann:1')
+
+    state.user = { name: 'Bob' }
+    await tick()
+    expect(container.textContent).toBe('Bob:0')
+
+    state.user = null
+    await tick()
+    expect(container.textContent).toBe('')
+  })
+
+  it('should render the first matching Match of a Switch', async () => {
+    const state = reactive({ page: 'home' })
+    const unmounted: string[] = []
+
+    function Home() {
+      onUnmount(() => unmounted.push('home'))
+      return f('h1', {}, 'Home')
+    }
+
+    function App() {
+      return f(Switch, { fallback: f('p', {}, 'Not found') }, [
+        f(Match, { when: () => state.page === 'home' }, f(Home)),
+        f(Match, { when: () => state.page === 'about' }, f('h1', {}, 'About')),
+      ])
+    }
+
+    render(f(App), container)
+    expect(container.textContent).toBe('Home')
+
+    state.page = 'about'
+    await tick()
+    expect(container.textContent).toBe('About')
+    expect(unmounted).toEqual(['home'])
+
+    state.page = 'contact'
+    await tick()
+    expect(container.textContent).toBe('Not found')
+  })
+
+  it('should replace a Dynamic component only when it changes', async () => {
+    const state = reactive({ label: 'a', tag: 'h1' })
+
+    function Other(props: { name: string }) {
+      return f('span', {}, props.name)
+    }
+
+    function App() {
+      return f('div', {}, [
+        f(Dynamic, {
+          component: state.label === 'c' ? Other : Counter,
+          name: state.label,
+        }),
+        f(Dynamic, { component: state.tag }, 'Title'),
+      ])
+    }
+
+    render(f(App), container)
+    container.querySelector('button')?.click()
+    await tick()
+
+    state.label = 'b'
+    await tick()
+    expect(container.querySelector('button')?.textContent).toBe('b:1')
+
+    state.label = 'c'
+    state.tag = 'h2'
+    await tick()
+    expect(container.querySelector('div')?.innerHTML).toBe(
+      '<span>c</span><h2>Title</h2>'
+    )
+  })
+
+  it('should move keyed fragments with their nodes', async () => {
+    const state = reactive({ terms: ['a', 'b'] })
+
+    function List() {
+      return f(
+        'dl',
+        {},
+        state.terms.map((term) =>
+          f(Fragment, { key: term }, [
+            f('dt', {}, term),
+            f('dd', {}, term.toUpperCase()),
+          ])
+        )
+      )
+    }
+
+    render(f(List), container)
+    const [dtA, , dtB] = Array.from(container.querySelectorAll('dt, dd'))
+
+    state.terms = ['b', 'a']
+    await tick()
+    expect(container.querySelector('dl')?.innerHTML).toBe(
+      '<dt>b</dt><dd>B</dd><dt>a</dt><dd>A</dd>'
+    )
+    expect(container.querySelectorAll('dt')[0]).toBe(dtB)
+    expect(container.querySelectorAll('dt')[1]).toBe(dtA)
+  })
 })
 
 describe('Suspense', () => {
@@ -261,6 +1115,94 @@ describe('Suspense', () => {
     expect(container.querySelector('[data-testid="c2"]')).not.toBeNull()
     expect(container.querySelector('[data-testid="c3"]')).not.toBeNull()
   })
+
+  it('should show the fallback until suspense resources resolve', async () => {
+    let calls = 0
+
+    function User() {
+      const [name] = use(
+        async () => {
+          calls++
+          await new Promise((r) => setTimeout(r, 10))
+          return 'Ann'
+        },
+        { suspense: true }
+      )
+      return f('span', {}, name)
+    }
+
+    render(
+      f(Suspense, { fallback: f('i', {}, 'Loading...') }, [f(User)]),
+      container
+    )
+    await new Promise((r) => setTimeout(r, 0))
+    expect(container.textContent).toBe('Loading...')
+
+    await tick()
+    expect(container.textContent).toBe('Ann')
+    expect(calls).toBe(1)
+  })
+
+  it('should hand parked resources back only to the component they belong to', async () => {
+    const state = reactive({ ids: [1, 2] })
+    const responses: (() => void)[] = []
+    const fetchUser = (id: number) =>
+      new Promise<string>((resolve) => {
+        responses.push(() => resolve(`user ${id}`))
+      })
+
+    function User(props: { id: number }) {
+      const [name] = use(async () => fetchUser(props.id), { suspense: true })
+      return f('li', {}, name)
+    }
+
+    function List() {
+      return f(
+        'ul',
+        {},
+        state.ids.map((id) => f(User, { id, key: id }))
+      )
+    }
+
+    render(
+      f(Suspense, { fallback: f('i', {}, 'Loading...') }, [f(List)]),
+      container
+    )
+    await tick()
+    expect(container.textContent).toBe('Loading...')
+
+    // Only user 2 mounts again, and must not take the request of user 1
+    state.ids = [2]
+    await tick()
+    responses.forEach((respond) => respond())
+    await tick()
+    expect(container.textContent).toBe('user 2')
+    expect(responses.length).toBe(2)
+  })
+
+  it('should forward suspense resource errors to the nearest ErrorBoundary', async () => {
+    function Broken() {
+      const [value] = use(
+        (): Promise<string> => Promise.reject(new Error('boom')),
+        { suspense: true }
+      )
+      return f('span', {}, value)
+    }
+
+    render(
+      f(
+        ErrorBoundary,
+        {
+          fallback: (error: Error) => f('p', {}, error.message),
+        },
+        [f(Suspense, { fallback: f('i', {}, 'Loading...') }, [f(Broken)])]
+      ),
+      container
+    )
+
+    await tick()
+    expect(container.textContent).toBe('boom')
+  })
 })
 
 describe('lazy()', () => {
@@ -370,4 +1312,48 @@ describe('ErrorBoundary', () => {
     expect(container.querySelector('[data-testid="title"]')).not.toBeNull()
     expect(container.querySelector('[data-testid="inner-content"]')).not.toBeNull()
   })
+
+  it('should catch errors thrown by re-renders and keep other components updating', async () => {
+    const state = reactive({ count: 0 })
+    const onError = vi.fn()
+
+    function Broken() {
+      if (state.count > 0) throw new Error('Render failed')
+      return f('span', {}, 'ok')
+    }
+
+    function Sibling() {
+      return f('span', { 'data-testid': 'sibling' }, String(state.count))
+    }
+
+    render(
+      f('div', {}, [
+        f(
+          ErrorBoundary,
+          {
+            fallback: (error: Error) =>
+              f('div', { 'data-testid': 'fallback' }, error.message),
+            onError,
+          },
+          [f(Broken)]
+        ),
+        f(Sibling),
+      ]),
+      container
+    )
+
+    state.count++
+    await tick()
+
+    expect(
+      container.querySelector('[data-testid="fallback"]')?.textContent
+    ).toBe('Render failed')
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ phase: 'render' })
+    )
+    expect(
+      container.querySelector('[data-testid="sibling"]')?.textContent
+    ).toBe('1')
+  })
 })
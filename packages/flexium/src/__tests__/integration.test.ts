@@ -4,8 +4,17 @@
  * Complex scenarios combining multiple APIs
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
-import { render, f, Suspense, ErrorBoundary } from '../dom'
-import { use, sync, useRef, Context } from '../core'
+import { render, f, Suspense, ErrorBoundary, Portal } from '../dom'
+import {
+  use,
+  sync,
+  useRef,
+  Context,
+  captureContext,
+  getContextValue,
+  onUnmount,
+} from '../core'
+import { reactive } from '../core/reactive'
 
 const tick = () => new Promise(r => setTimeout(r, 50))
 
@@ -234,6 +243,165 @@ describe('Context + State + Components', () => {
 
     expect(container.querySelector('[data-testid="guest"]')).not.toBeNull()
   })
+
+  it('should resolve the nearest provider in each subtree', () => {
+    const ThemeCtx = new Context('light')
+
+    function Label({ id }: { id: string }) {
+      const [theme] = use(ThemeCtx)
+      return f('span', { 'data-testid': id }, theme)
+    }
+
+    function App() {
+      return f('div', {}, [
+        f(ThemeCtx.Provider, { value: 'dark' }, [f(Label, { id: 'a' })]),
+        f(Label, { id: 'b' }),
+        f(ThemeCtx.Provider, { value: 'blue' }, [f(Label, { id: 'c' })]),
+      ])
+    }
+
+    render(f(App), container)
+
+    expect(container.querySelector('[data-testid="a"]')?.textContent).toBe(
+      'dark'
+    )
+    expect(container.querySelector('[data-testid="b"]')?.textContent).toBe(
+      'light'
+    )
+    expect(container.querySelector('[data-testid="c"]')?.textContent).toBe(
+      'blue'
+    )
+  })
+
+  it('should keep context in portals and async callbacks', async () => {
+    const ThemeCtx = new Context('light')
+    const target = document.createElement('div')
+    document.body.appendChild(target)
+    let later: string | undefined
+
+    function Label() {
+      const [theme] = use(ThemeCtx)
+      return f('span', { 'data-testid': 'portal' }, theme)
+    }
+
+    function Child() {
+      const withContext = captureContext()
+      setTimeout(() => {
+        later = withContext(() => getContextValue(ThemeCtx))
+      })
+      return f(Portal, { target }, [f(Label)])
+    }
+
+    function App() {
+      const [theme, setTheme] = use('dark')
+      return f(ThemeCtx.Provider, { value: theme }, [
+        f('button', { onclick: () => setTheme('blue') }),
+        f(Child),
+      ])
+    }
+
+    render(f(App), container)
+    await tick()
+
+    expect(later).toBe('dark')
+    expect(target.querySelector('[data-testid="portal"]')?.textContent).toBe(
+      'dark'
+    )
+
+    container.querySelector('button')?.click()
+    await tick()
+
+    expect(target.querySelector('[data-testid="portal"]')?.textContent).toBe(
+      'blue'
+    )
+    document.body.removeChild(target)
+  })
+  it("should bubble events from portal content to the portal's parent", async () => {
+    const target = document.createElement('div')
+    document.body.appendChild(target)
+    const clicks: string[] = []
+
+    function Modal() {
+      return f(Portal, { target }, [
+        f('button', { onClick: () => clicks.push('button') }, 'OK'),
+      ])
+    }
+
+    function App() {
+      return f('div', { onClick: () => clicks.push('app') }, [f(Modal)])
+    }
+
+    render(f(App), container)
+    await tick()
+
+    target.querySelector('button')?.click()
+    expect(clicks).toEqual(['button', 'app'])
+    document.body.removeChild(target)
+  })
+
+  it("should catch errors from portal content in the parent's ErrorBoundary", async () => {
+    const target = document.createElement('div')
+    document.body.appendChild(target)
+
+    const state = reactive({ broken: false })
+
+    function Content() {
+      if (state.broken) throw new Error('broken')
+      return f('p', {}, 'ok')
+    }
+
+    function App() {
+      return f(
+        ErrorBoundary,
+        {
+          fallback: (error: Error) => f('p', {}, error.message),
+        },
+        [f(Portal, { target }, [f(Content)])]
+      )
+    }
+
+    render(f(App), container)
+    await tick()
+    expect(target.textContent).toBe('ok')
+
+    state.broken = true
+    await tick()
+
+    expect(container.textContent).toBe('broken')
+    expect(target.textContent).toBe('')
+    document.body.removeChild(target)
+  })
+
+  it('should remove portal content with the portal', async () => {
+    const target = document.createElement('div')
+    target.id = 'portal-root'
+    document.body.appendChild(target)
+    const unmounted: string[] = []
+
+    function Dialog() {
+      onUnmount(() => unmounted.push('dialog'))
+      return f('dialog', {}, 'Hi')
+    }
+
+    function App() {
+      const [open, setOpen] = use(true)
+      return f('div', {}, [
+        f('button', { onClick: () => setOpen(false) }),
+        open ? f(Portal, { target: '#portal-root' }, [f(Dialog)]) : null,
+      ])
+    }
+
+    render(f(App), container)
+    await tick()
+    expect(target.querySelector('dialog')?.textContent).toBe('Hi')
+
+    container.querySelector('button')?.click()
+    await tick()
+
+    expect(target.innerHTML).toBe('')
+    expect(unmounted).toEqual(['dialog'])
+    document.body.removeChild(target)
+  })
 })
 
 describe('ErrorBoundary patterns', () => {
@@ -4,9 +4,20 @@
  * Tests for: renderToString, renderToStaticMarkup, hydrate, getIsServer
  */
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { f, hydrate } from '../dom'
+import {
+  f,
+  hydrate,
+  Suspense,
+  Portal,
+  Show,
+  Switch,
+  Match,
+  Dynamic,
+  Fragment,
+} from '../dom'
 import { renderToString, renderToStaticMarkup, getIsServer } from '../server'
 import { use, Context } from '../core'
+import { reactive } from '../core/reactive'
 
 const tick = () => new Promise(r => setTimeout(r, 50))
 
@@ -45,6 +56,13 @@ describe('renderToString()', () => {
     expect(result.html).toContain('<h1')
   })
 
+  it('should render the current value of function props and children', () => {
+    const result = renderToStaticMarkup(
+      f('p', { class: () => 'count' }, () => 3)
+    )
+    expect(result).toBe('<p class="count">3</p>')
+  })
+
   it('should render with state (initial value)', () => {
     function Counter() {
       const [count] = use(42)
@@ -142,6 +160,23 @@ describe('renderToStaticMarkup()', () => {
     expect(html).toContain('<body')
     expect(html).toContain('Welcome')
   })
+
+  it('should render control flow components', () => {
+    const html = renderToStaticMarkup(
+      f('div', {}, [
+        f(Show, { when: () => 0, fallback: f('i', {}, 'none') }, 'some'),
+        f(Switch, {}, [
+          f(Match, { when: false }, 'first'),
+          f(Match, { when: 'second' }, (value: string) => f('b', {}, value)),
+        ]),
+        f(Dynamic, { component: 'em', title: 'x' }, 'dynamic'),
+        f(Fragment, { key: 'k' }, [f('span', {}, '1'), f('span', {}, '2')]),
+      ])
+    )
+    expect(html).toBe(
+      '<div><i>none</i><b>second</b><em title="x">dynamic</em><span>1</span><span>2</span></div>'
+    )
+  })
 })
 
 describe('hydrate()', () => {
@@ -168,6 +203,56 @@ describe('hydrate()', () => {
     expect(container.querySelector('[data-testid="app"]')).not.toBeNull()
   })
 
+  it('should stop hydrated components when disposed', async () => {
+    container.innerHTML = '<p>0</p>'
+    const state = reactive({ n: 0 })
+    let renders = 0
+
+    function Count() {
+      renders++
+      return f('p', {}, String(state.n))
+    }
+
+    const dispose = hydrate(f(Count), container)
+    dispose()
+    state.n = 1
+    await tick()
+
+    expect(renders).toBe(1)
+    expect(container.innerHTML).toBe('')
+  })
+
+  it('should stop hydrated components before falling back to a full render', async () => {
+    container.innerHTML = '<p>0</p><div></div>'
+    const state = reactive({ n: 0 })
+    let mismatch: Error | undefined
+    let renders = 0
+
+    function Count() {
+      renders++
+      return f('p', {}, String(state.n))
+    }
+
+    function App() {
+      return [f(Count), f('span', {}, 'x')]
+    }
+
+    hydrate(f(App), container, {
+      onMismatch: (error) => {
+        mismatch = error
+      },
+    })
+    expect(mismatch).toBeDefined()
+    expect(container.innerHTML).toBe('<p>0</p><span>x</span>')
+
+    state.n = 1
+    await tick()
+
+    // Hydrated once, rendered again by the fallback, then one update
+    expect(renders).toBe(3)
+    expect(container.textContent).toBe('1x')
+  })
+
   it('should attach event handlers after hydration', async () => {
     let clicked = false
     container.innerHTML = '<button data-testid="btn">Click</button>'
@@ -184,6 +269,161 @@ describe('hydrate()', () => {
     container.querySelector<HTMLButtonElement>('[data-testid="btn"]')?.click()
     expect(clicked).toBe(true)
   })
+
+  it('should keep function props bound after hydration', async () => {
+    container.innerHTML = '<p class="off">0</p>'
+    const state = reactive({ on: false, count: 0 })
+
+    function App() {
+      return f(
+        'p',
+        { class: () => (state.on ? 'on' : 'off') },
+        () => state.count
+      )
+    }
+
+    hydrate(f(App), container)
+    state.on = true
+    state.count = 1
+    await tick()
+
+    expect(container.innerHTML).toBe('<p class="on">1</p>')
+  })
+
+  it('should hydrate inline SVG and re-render it in the SVG namespace', async () => {
+    container.innerHTML =
+      '<svg viewBox="0 0 10 10"><circle r="2"></circle></svg>'
+    const state = reactive({ r: 2 })
+
+    function Icon() {
+      return f('svg', { viewBox: '0 0 10 10' }, f('circle', { r: state.r }))
+    }
+
+    hydrate(f(Icon), container)
+    state.r = 3
+    await tick()
+
+    const circle = container.querySelector('circle') as SVGCircleElement
+    expect(circle.namespaceURI).toBe('http://www.w3.org/2000/svg')
+    expect(circle.getAttribute('r')).toBe('3')
+  })
+
+  it('should hydrate a Show that renders nothing and show it later in place', async () => {
+    const state = reactive({ open: false })
+
+    function App() {
+      return f('div', {}, [
+        f(Show, { when: () => state.open }, f('p', {}, 'Open')),
+        f('span', {}, 'End'),
+      ])
+    }
+
+    container.innerHTML = renderToString(f(App)).html
+    hydrate(f(App), container)
+
+    state.open = true
+    await tick()
+    expect(container.querySelector('div')?.textContent).toBe('OpenEnd')
+    expect(container.querySelector('div')?.firstElementChild?.tagName).toBe('P')
+  })
+
+  it('should keep the client-rendered children of hydrated components', async () => {
+    container.innerHTML = '<p>0</p>'
+    const state = reactive({ n: 0 })
+    let mounts = 0
+
+    function Child() {
+      const [id] = use(() => ++mounts)
+      return f('i', {}, String(id))
+    }
+
+    function App() {
+      return state.n > 0
+        ? f('p', {}, [String(state.n), f(Child)])
+        : f('p', {}, '0')
+    }
+
+    hydrate(f(App), container)
+    state.n = 1
+    await tick()
+    state.n = 2
+    await tick()
+
+    expect(container.innerHTML).toBe('<p>2<i>1</i></p>')
+    expect(mounts).toBe(1)
+  })
+
+  it('should reuse hydrated keyed elements when the list is reordered', async () => {
+    const state = reactive({ ids: ['a', 'b', 'c'] })
+
+    function List() {
+      return f(
+        'ul',
+        {},
+        state.ids.map((id) => f('li', { key: id }, id))
+      )
+    }
+
+    container.innerHTML = renderToString(f(List)).html
+    const [a, b, c] = Array.from(container.querySelectorAll('li'))
+
+    hydrate(f(List), container)
+    state.ids = ['c', 'a', 'b']
+    await tick()
+
+    const items = container.querySelectorAll('li')
+    expect(container.textContent).toBe('cab')
+    expect(items[0]).toBe(c)
+    expect(items[1]).toBe(a)
+    expect(items[2]).toBe(b)
+  })
+
+  it('should render portals on the client', async () => {
+    const target = document.createElement('div')
+    document.body.appendChild(target)
+
+    function App() {
+      return f('main', {}, [
+        f(Portal, { target }, [f('p', {}, 'Modal')]),
+        f('span', {}, 'Page'),
+      ])
+    }
+
+    container.innerHTML = renderToString(f(App)).html
+    expect(container.textContent).toBe('Page')
+
+    hydrate(f(App), container)
+    await tick()
+
+    expect(target.textContent).toBe('Modal')
+    expect(container.querySelector('span')?.textContent).toBe('Page')
+    document.body.removeChild(target)
+  })
+
+  it('should suspend hydrated components on suspense resources', async () => {
+    container.innerHTML = '<span>…</span>'
+
+    function User() {
+      const [name] = use(
+        async () => {
+          await new Promise((r) => setTimeout(r, 10))
+          return 'Ann'
+        },
+        { suspense: true }
+      )
+      return f('span', {}, name ?? '…')
+    }
+
+    hydrate(
+      f(Suspense, { fallback: f('i', {}, 'Loading...') }, [f(User)]),
+      container
+    )
+    await new Promise((r) => setTimeout(r, 0))
+    expect(container.textContent).toBe('Loading...')
+
+    await tick()
+    expect(container.textContent).toBe('Ann')
+  })
 })
 
 describe('getIsServer()', () => {
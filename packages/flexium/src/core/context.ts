@@ -1,10 +1,34 @@
 import { Useable } from './useable'
+import { track, trigger } from './reactive'
+import { effectScope, unsafeEffect, untrack } from './lifecycle'
 
-const contextMap = new Map<symbol, any>()
+// Values pushed outside the component tree (e.g. while drawing a canvas)
+const contextMap = new Map<symbol, unknown>()
+
+// A provided value; reads are tracked so only its consumers are notified
+interface ContextSlot {
+  value: unknown
+}
+
+/**
+ * A component instance as seen by context: values it provides and the
+ * instance that rendered it
+ */
+export interface ContextOwner {
+  parentInstance?: ContextOwner
+  contexts?: Map<symbol, ContextSlot>
+}
+
+// Instance whose component is running, set by the renderers
+let currentOwner: ContextOwner | null = null
 
 /**
  * Context for passing data through the component tree
  *
+ * Consumers get the value of the nearest Provider above them and re-render
+ * when that Provider's value changes; providers in other subtrees are
+ * never visible.
+ *
  * @example
  * ```tsx
  * const ThemeContext = new Context('light')
@@ -40,26 +64,127 @@ export class Context<T> extends Useable<T> {
    * Get current context value or default
    */
   getInitial(): T {
-    return contextMap.has(this.id) ? contextMap.get(this.id) : this.defaultValue
+    const slot = findSlot(this.id)
+    if (slot) return untrack(() => readSlot(slot)) as T
+    return contextMap.has(this.id)
+      ? (contextMap.get(this.id) as T)
+      : this.defaultValue
   }
 
   /**
-   * Context doesn't have traditional subscriptions
-   * Reactivity is handled by component re-rendering
+   * Report value changes of the nearest Provider
    */
-  subscribe(_params: undefined, _callback: (value: T) => void): () => void {
-    // Context changes trigger re-render through Provider mechanism
-    // No additional subscription needed
-    return () => {}
+  subscribe(_params: undefined, callback: (value: T) => void): () => void {
+    const slot = findSlot(this.id)
+    if (!slot) return () => {}
+
+    const scope = effectScope(true)
+    let first = true
+    scope.run(() => {
+      const runner = unsafeEffect(
+        () => {
+          const value = readSlot(slot) as T
+          if (first) {
+            first = false
+          } else {
+            untrack(() => callback(value))
+          }
+        },
+        {
+          // Update consumers before the Provider renders its children
+          scheduler: () => runner(),
+        }
+      )
+    })
+    return () => scope.stop()
   }
 }
 
+function readSlot(slot: ContextSlot): unknown {
+  track(slot, 'value')
+  return slot.value
+}
+
+function findSlot(id: symbol): ContextSlot | undefined {
+  for (
+    let owner: ContextOwner | undefined = currentOwner || undefined;
+    owner;
+    owner = owner.parentInstance
+  ) {
+    const slot = owner.contexts?.get(id)
+    if (slot) return slot
+  }
+  return undefined
+}
+
 // Internal: get context value (used by use.ts)
 export function getContextValue<T>(ctx: Context<T>): T {
   return ctx.getInitial()
 }
 
-// Internal helpers for renderer
+/**
+ * Provide a value on an instance for everything it renders. Called by the
+ * renderers on every render of a Provider; consumers are only notified
+ * when the value actually changes.
+ * @internal
+ */
+export function provideContext(
+  owner: ContextOwner,
+  id: symbol,
+  value: unknown
+) {
+  if (!owner.contexts) {
+    owner.contexts = new Map()
+  }
+
+  const slot = owner.contexts.get(id)
+  if (!slot) {
+    owner.contexts.set(id, { value })
+  } else if (!Object.is(slot.value, value)) {
+    slot.value = value
+    trigger(slot, 'set', 'value', value)
+  }
+}
+
+/**
+ * Run fn with context resolved from owner
+ * @internal
+ */
+export function runWithOwner<R>(owner: ContextOwner | null, fn: () => R): R {
+  const prev = currentOwner
+  currentOwner = owner
+  try {
+    return fn()
+  } finally {
+    currentOwner = prev
+  }
+}
+
+export function getOwner(): ContextOwner | null {
+  return currentOwner
+}
+
+/**
+ * Capture the context at the call site, for callbacks that run later
+ * (timers, promise handlers, event listeners)
+ *
+ * @example
+ * ```tsx
+ * function Toolbar() {
+ *   const withContext = captureContext()
+ *   setTimeout(() => withContext(() => {
+ *     const theme = getContextValue(ThemeContext) // Toolbar's theme
+ *   }), 1000)
+ * }
+ * ```
+ */
+export function captureContext(): <R>(fn: () => R) => R {
+  const owner = currentOwner
+  const snapshot = new Map(contextMap)
+  return (fn) => runWithOwner(owner, () => runWithContext(snapshot, fn))
+}
+
+// Helpers for values provided outside the component tree
 export function pushContext(id: symbol, value: any) {
     const prev = contextMap.get(id)
     contextMap.set(id, value)
@@ -10,11 +10,25 @@ interface SignalInfo {
   createdAt: number
 }
 
+// A write that caused a traced render, for the "why did this render" view
+interface RenderCause {
+  signal: string
+  oldValue: unknown
+  newValue: unknown
+  stack?: string
+}
+
 interface DevToolsHook {
   signals: Map<number, SignalInfo>
   onSignalCreate: (info: SignalInfo) => void
   onSignalUpdate: (id: number, value: unknown) => void
-  onRender: (event: { timestamp: number; componentName: string; trigger: string; duration: number }) => void
+  onRender: (event: {
+    timestamp: number
+    componentName: string
+    trigger: string
+    duration: number
+    causes?: RenderCause[]
+  }) => void
 }
 
 declare global {
@@ -63,7 +77,12 @@ export function updateSignal(container: object, value: unknown): void {
   }
 }
 
-export function reportRender(componentName: string, trigger: string, duration: number): void {
+export function reportRender(
+  componentName: string,
+  trigger: string,
+  duration: number,
+  causes?: RenderCause[]
+): void {
   const hook = getDevToolsHook()
   if (!hook) return
 
@@ -72,6 +91,7 @@ export function reportRender(componentName: string, trigger: string, duration: n
     componentName,
     trigger,
     duration,
+    causes,
   })
 }
 
@@ -0,0 +1,267 @@
+import { hook } from './hook'
+import { isReactive } from './reactive'
+import { captureContext } from './context'
+import {
+  Computed,
+  ReactiveEffectLike,
+  queuePreFlushCb,
+  queuePostFlushCb,
+  setEffectOrigin,
+} from './lifecycle'
+
+/**
+ * When a re-run happens relative to component renders:
+ * - 'pre': before render effects in the same flush (default)
+ * - 'post': after render effects have patched the DOM
+ * - 'sync': immediately when a dependency changes
+ */
+export type FlushTiming = 'pre' | 'post' | 'sync'
+
+export type EffectCleanup = () => void
+
+export interface EffectOptions {
+  flush?: FlushTiming
+  /** Shown in dev error messages, e.g. when the effect keeps re-running */
+  name?: string
+}
+
+export interface WatchOptions extends EffectOptions {
+  /** Run the callback right away with `undefined` as the old value */
+  immediate?: boolean
+  /** Watch nested properties (default for reactive objects) */
+  deep?: boolean
+}
+
+export type WatchSource<T = unknown> =
+  | (() => T)
+  | Computed<T>
+  | (T extends object ? T : never)
+
+export type WatchCallback<V = unknown, OV = V> = (
+  value: V,
+  oldValue: OV,
+  onCleanup: (fn: EffectCleanup) => void
+) => void
+
+type MapSources<T> = {
+  [K in keyof T]: T[K] extends WatchSource<infer V> ? V : never
+}
+
+// owner: the effect whose component handles errors thrown by the job
+function schedule(
+  job: () => void,
+  flush: FlushTiming,
+  owner: ReactiveEffectLike
+) {
+  if (flush === 'sync') {
+    job()
+  } else if (flush === 'post') {
+    queuePostFlushCb(job, owner)
+  } else {
+    queuePreFlushCb(job, owner)
+  }
+}
+
+/**
+ * Run a function now and again whenever the reactive values it reads change
+ *
+ * `fn` may return a cleanup, which runs before the next run and on dispose.
+ * Inside a component the effect is created once and stopped on unmount.
+ *
+ * @returns Disposer that stops the effect
+ *
+ * @example
+ * ```tsx
+ * const stop = effect(() => {
+ *   const id = setInterval(() => console.log(state.count), 1000)
+ *   return () => clearInterval(id)
+ * })
+ * ```
+ */
+export function effect(
+  fn: () => void | EffectCleanup,
+  options: EffectOptions = {}
+): () => void {
+  return hook(() => {
+    const { flush = 'pre' } = options
+    // Re-runs happen outside the component but keep its context
+    const withContext = captureContext()
+    let cleanup: void | EffectCleanup
+
+    const runCleanup = () => {
+      if (cleanup) {
+        const fn = cleanup
+        cleanup = undefined
+        fn()
+      }
+    }
+
+    const job = () => {
+      if (_effect.active && _effect.dirty) {
+        _effect.run()
+      }
+    }
+
+    const _effect = new ReactiveEffectLike(
+      () => {
+        runCleanup()
+        cleanup = withContext(fn)
+      },
+      () => schedule(job, flush, _effect)
+    )
+
+    _effect.name = options.name || fn.name || undefined
+    setEffectOrigin(_effect, fn)
+    _effect.onStop = runCleanup
+
+    if (flush === 'post') {
+      queuePostFlushCb(job, _effect)
+    } else {
+      _effect.run()
+    }
+
+    return () => _effect.stop()
+  })
+}
+
+/**
+ * Call `cb` with the new and old value whenever `source` changes
+ *
+ * `source` can be a getter, a computed, a reactive object (watched deeply),
+ * or an array of those.
+ *
+ * @returns Disposer that stops watching
+ *
+ * @example
+ * ```tsx
+ * watch(() => route.path, (path, prev) => {
+ *   analytics.track(path, prev)
+ * }, { flush: 'post' })
+ * ```
+ */
+export function watch<T extends readonly WatchSource<unknown>[]>(
+  sources: [...T],
+  cb: WatchCallback<MapSources<T>, MapSources<T> | undefined>,
+  options?: WatchOptions
+): () => void
+
+export function watch<T>(
+  source: WatchSource<T>,
+  cb: WatchCallback<T, T | undefined>,
+  options?: WatchOptions
+): () => void
+
+export function watch(
+  source: WatchSource | WatchSource[],
+  cb: WatchCallback<never, never>,
+  options: WatchOptions = {}
+): () => void {
+  return hook(() => {
+    const { immediate = false, flush = 'pre' } = options
+    let deep = options.deep
+    let getter: () => unknown
+    const isMultiSource = Array.isArray(source) && !isReactive(source)
+
+    if (isMultiSource) {
+      const sources = source
+      if (deep === undefined && sources.some(isReactive)) deep = true
+      getter = () => sources.map(readSource)
+    } else {
+      if (deep === undefined && isReactive(source)) deep = true
+      getter = () => readSource(source as WatchSource)
+    }
+
+    if (deep) {
+      const baseGetter = getter
+      getter = () => traverse(baseGetter())
+    }
+
+    let oldValue: unknown = undefined
+    let cleanup: EffectCleanup | undefined
+
+    const runCleanup = () => {
+      if (cleanup) {
+        const fn = cleanup
+        cleanup = undefined
+        fn()
+      }
+    }
+
+    const onCleanup = (fn: EffectCleanup) => {
+      cleanup = fn
+    }
+
+    const job = (initial = false) => {
+      if (!_effect.active || (!initial && !_effect.dirty)) return
+
+      const newValue: unknown = _effect.run()
+      const changed =
+        initial ||
+        deep ||
+        (isMultiSource
+          ? (newValue as unknown[]).some(
+              (v, i) => !Object.is(v, (oldValue as unknown[] | undefined)?.[i])
+            )
+          : !Object.is(newValue, oldValue))
+
+      if (changed) {
+        runCleanup()
+        const prev = oldValue
+        oldValue = newValue
+        ;(cb as WatchCallback)(newValue, prev, onCleanup)
+      }
+    }
+
+    const _effect = new ReactiveEffectLike(getter, () =>
+      schedule(job, flush, _effect)
+    )
+    _effect.name = options.name || cb.name || undefined
+    setEffectOrigin(_effect, cb)
+    _effect.onStop = runCleanup
+
+    if (immediate) {
+      if (flush === 'post') {
+        queuePostFlushCb(() => job(true), _effect)
+      } else {
+        job(true)
+      }
+    } else {
+      oldValue = _effect.run()
+    }
+
+    return () => _effect.stop()
+  })
+}
+
+function readSource(source: WatchSource): unknown {
+  if (source instanceof Computed) return source.value
+  if (typeof source === 'function') return (source as () => unknown)()
+  return source
+}
+
+/**
+ * Read every nested property so a deep watcher depends on all of them
+ * @internal
+ */
+export function traverse(value: unknown, seen = new Set<unknown>()): unknown {
+  if (value === null || typeof value !== 'object' || seen.has(value)) {
+    return value
+  }
+  seen.add(value)
+
+  if (Array.isArray(value)) {
+    for (let i = 0; i < value.length; i++) {
+      traverse(value[i], seen)
+    }
+  } else if (value instanceof Map) {
+    value.forEach((v) => traverse(v, seen))
+  } else if (value instanceof Set) {
+    value.forEach((v) => traverse(v, seen))
+  } else {
+    for (const key of Object.keys(value)) {
+      traverse((value as Record<string, unknown>)[key], seen)
+    }
+  }
+
+  return value
+}
@@ -0,0 +1,409 @@
+import { reactive, toRaw } from './reactive'
+import { hook } from './hook'
+import { untrack } from './lifecycle'
+
+/** Error messages by field path, e.g. `{ 'address.city': 'Required' }` */
+export type FormErrors = Record<string, string | undefined>
+
+/**
+ * Schema following the Standard Schema spec, implemented by zod, valibot,
+ * arktype and others
+ */
+export interface StandardSchema<T = unknown> {
+  readonly '~standard': {
+    validate: (value: unknown) => StandardResult<T> | Promise<StandardResult<T>>
+  }
+}
+
+type StandardResult<T> =
+  | { value: T; issues?: undefined }
+  | {
+      issues: ReadonlyArray<{
+        message: string
+        path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>
+      }>
+    }
+
+export interface FormOptions<V extends object> {
+  initialValues: V
+  /** Return error messages by field path; may be async */
+  validate?: (values: V) => FormErrors | void | Promise<FormErrors | void>
+  /** Standard Schema (zod, valibot, ...) checked before `validate` */
+  schema?: StandardSchema
+  /**
+   * When to validate before the first submit; afterwards every change
+   * re-validates
+   * @default 'blur'
+   */
+  validateOn?: 'change' | 'blur' | 'submit'
+}
+
+/**
+ * Props binding an input to a form field. Spread it on a native input, or
+ * pass it as `field` to flexium-ui inputs.
+ */
+export interface FieldBinding<T = unknown> {
+  name: string
+  value: T
+  /** Set instead of value for boolean fields */
+  checked?: boolean
+  onInput: (e: Event) => void
+  onChange: (e: Event) => void
+  onBlur: () => void
+  /** Error message, once the field is touched or the form submitted */
+  readonly error: string | undefined
+  readonly touched: boolean
+  readonly dirty: boolean
+  setValue: (value: T) => void
+}
+
+export interface FieldArray<T = unknown> {
+  /** One entry per item; `key` stays with the item when it moves */
+  readonly fields: { key: number; name: string }[]
+  append: (value: T) => void
+  prepend: (value: T) => void
+  insert: (index: number, value: T) => void
+  remove: (index: number) => void
+  move: (from: number, to: number) => void
+}
+
+export interface Form<V extends object> {
+  readonly values: V
+  /** Every current error, including fields not touched yet */
+  readonly errors: FormErrors
+  readonly touched: Record<string, boolean>
+  readonly isDirty: boolean
+  readonly isValid: boolean
+  readonly isValidating: boolean
+  readonly isSubmitting: boolean
+  readonly submitCount: number
+  register: <T = unknown>(name: string) => FieldBinding<T>
+  array: <T = unknown>(name: string) => FieldArray<T>
+  setValue: (name: string, value: unknown) => void
+  setError: (name: string, message: string | undefined) => void
+  /** Run validation now; resolves to whether the form is valid */
+  validate: () => Promise<boolean>
+  /**
+   * Create a submit handler: validates, then calls onValid with the values
+   * while `isSubmitting` is true
+   */
+  handleSubmit: (
+    onValid: (values: V) => unknown
+  ) => (e?: Event) => Promise<void>
+  /** Back to the initial values, or to new ones that become the initial values */
+  reset: (values?: V) => void
+}
+
+/**
+ * Form state with validation, field bindings and field arrays
+ *
+ * @example
+ * ```tsx
+ * const form = useForm({
+ *   initialValues: { email: '', tags: [] as string[] },
+ *   schema: z.object({ email: z.string().email() })
+ * })
+ *
+ * <form onsubmit={form.handleSubmit(values => api.save(values))}>
+ *   <input {...form.register('email')} />
+ *   {form.register('email').error}
+ *   <button disabled={form.isSubmitting}>Save</button>
+ * </form>
+ * ```
+ */
+export function useForm<V extends object>(options: FormOptions<V>): Form<V> {
+  return hook(() => createForm(options))
+}
+
+function createForm<V extends object>(options: FormOptions<V>): Form<V> {
+  const validateOn = options.validateOn ?? 'blur'
+  let initial = clone(options.initialValues)
+  const state = reactive({
+    values: clone(initial),
+    errors: {} as FormErrors,
+    touched: {} as Record<string, boolean>,
+    isValidating: false,
+    isSubmitting: false,
+    submitCount: 0,
+  })
+  // Stable keys for field array items, by array path
+  const arrayKeys = new Map<string, number[]>()
+  let nextKey = 0
+  // Only the latest validation run applies its result
+  let validationRun = 0
+
+  const runValidation = async (): Promise<boolean> => {
+    const run = ++validationRun
+    const values = snapshot(state.values)
+    state.isValidating = true
+    try {
+      const errors: FormErrors = {}
+      if (options.schema) {
+        Object.assign(errors, await schemaErrors(options.schema, values))
+      }
+      if (options.validate) {
+        const result = await options.validate(values)
+        if (result) {
+          Object.entries(result).forEach(([path, message]) => {
+            if (message && !errors[path]) errors[path] = message
+          })
+        }
+      }
+      if (run === validationRun) {
+        state.errors = errors
+      }
+      return Object.values(errors).every((message) => !message)
+    } finally {
+      if (run === validationRun) state.isValidating = false
+    }
+  }
+
+  const validateAfter = (trigger: 'change' | 'blur') => {
+    if (state.submitCount > 0 || validateOn === trigger) {
+      void runValidation()
+    }
+  }
+
+  const setValue = (name: string, value: unknown) => {
+    setPath(state.values as Indexable, name, value)
+    validateAfter('change')
+  }
+
+  const register = <T>(name: string): FieldBinding<T> => {
+    const read = () => getPath(state.values, name) as T
+    const isBoolean = typeof untrack(read) === 'boolean'
+
+    const onInput = (e: Event) => {
+      const target = e.target as HTMLInputElement
+      const current = untrack(read)
+      const value =
+        typeof current === 'boolean'
+          ? target.checked
+          : typeof current === 'number'
+            ? target.value === ''
+              ? null
+              : Number(target.value)
+            : target.value
+      if (typeof current === 'boolean') state.touched[name] = true
+      setValue(name, value)
+    }
+
+    const binding = {
+      name,
+      onInput,
+      onChange: onInput,
+      onBlur: () => {
+        state.touched[name] = true
+        validateAfter('blur')
+      },
+    } as FieldBinding<T>
+
+    // Only DOM props are enumerable, so the binding can be spread on inputs
+    Object.defineProperty(binding, isBoolean ? 'checked' : 'value', {
+      get: read,
+      enumerable: true,
+    })
+    if (isBoolean) Object.defineProperty(binding, 'value', { get: read })
+    Object.defineProperties(binding, {
+      error: {
+        get: () =>
+          state.touched[name] || state.submitCount > 0
+            ? state.errors[name]
+            : undefined,
+      },
+      touched: { get: () => !!state.touched[name] },
+      dirty: {
+        get: () =>
+          !isEqual(getPath(state.values, name), getPath(initial, name)),
+      },
+      setValue: { value: (value: T) => setValue(name, value) },
+    })
+    return binding
+  }
+
+  const array = <T>(name: string): FieldArray<T> => {
+    const items = () => (getPath(state.values, name) as T[] | undefined) ?? []
+    const keys = () => {
+      let list = arrayKeys.get(name)
+      const length = items().length
+      if (!list) {
+        list = []
+        arrayKeys.set(name, list)
+      }
+      while (list.length < length) list.push(nextKey++)
+      list.length = length
+      return list
+    }
+
+    const update = (edit: (list: T[], keyList: number[]) => void) => {
+      const list = [...untrack(items)]
+      const keyList = untrack(keys)
+      edit(list, keyList)
+      // Errors and touched flags of items refer to old indexes
+      clearUnder(state.errors, name)
+      clearUnder(state.touched, name)
+      setValue(name, list)
+    }
+
+    return {
+      get fields() {
+        const keyList = keys()
+        return keyList.map((key, i) => ({ key, name: `${name}.${i}` }))
+      },
+      append: (value) =>
+        update((list, keyList) => {
+          list.push(value)
+          keyList.push(nextKey++)
+        }),
+      prepend: (value) =>
+        update((list, keyList) => {
+          list.unshift(value)
+          keyList.unshift(nextKey++)
+        }),
+      insert: (index, value) =>
+        update((list, keyList) => {
+          list.splice(index, 0, value)
+          keyList.splice(index, 0, nextKey++)
+        }),
+      remove: (index) =>
+        update((list, keyList) => {
+          list.splice(index, 1)
+          keyList.splice(index, 1)
+        }),
+      move: (from, to) =>
+        update((list, keyList) => {
+          list.splice(to, 0, ...list.splice(from, 1))
+          keyList.splice(to, 0, ...keyList.splice(from, 1))
+        }),
+    }
+  }
+
+  return {
+    get values() {
+      return state.values
+    },
+    get errors() {
+      return state.errors
+    },
+    get touched() {
+      return state.touched
+    },
+    get isDirty() {
+      return !isEqual(state.values, initial)
+    },
+    get isValid() {
+      return Object.values(state.errors).every((message) => !message)
+    },
+    get isValidating() {
+      return state.isValidating
+    },
+    get isSubmitting() {
+      return state.isSubmitting
+    },
+    get submitCount() {
+      return state.submitCount
+    },
+    register,
+    array,
+    setValue,
+    setError: (name, message) => {
+      state.errors[name] = message
+    },
+    validate: runValidation,
+    handleSubmit: (onValid) => async (e?: Event) => {
+      e?.preventDefault()
+      state.submitCount++
+      state.isSubmitting = true
+      try {
+        if (await runValidation()) {
+          await onValid(snapshot(state.values))
+        }
+      } finally {
+        state.isSubmitting = false
+      }
+    },
+    reset: (values) => {
+      if (values) initial = clone(values)
+      validationRun++
+      arrayKeys.clear()
+      state.values = clone(initial)
+      state.errors = {}
+      state.touched = {}
+      state.isValidating = false
+      state.submitCount = 0
+    },
+  }
+}
+
+async function schemaErrors(
+  schema: StandardSchema,
+  values: unknown
+): Promise<FormErrors> {
+  const result = await schema['~standard'].validate(values)
+  const errors: FormErrors = {}
+  result.issues?.forEach((issue) => {
+    const path = (issue.path ?? [])
+      .map((part) => String(typeof part === 'object' ? part.key : part))
+      .join('.')
+    // Keep the first message per field
+    if (!errors[path]) errors[path] = issue.message
+  })
+  return errors
+}
+
+type Indexable = Record<string, unknown>
+
+function getPath(source: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) =>
+        value === null || value === undefined
+          ? undefined
+          : (value as Indexable)[key],
+      source
+    )
+}
+
+function setPath(target: Indexable, path: string, value: unknown) {
+  const keys = path.split('.')
+  const last = keys[keys.length - 1]
+  const parents = keys.slice(0, -1)
+  parents.forEach((key, i) => {
+    if (target[key] === null || typeof target[key] !== 'object') {
+      target[key] = /^\d+$/.test(parents[i + 1] ?? last) ? [] : {}
+    }
+    target = target[key] as Indexable
+  })
+  target[last] = value
+}
+
+function clearUnder(record: Record<string, unknown>, path: string) {
+  Object.keys(record).forEach((key) => {
+    if (key.startsWith(`${path}.`)) delete record[key]
+  })
+}
+
+function snapshot<T>(value: T): T {
+  return clone(value)
+}
+
+// Copy arrays and plain objects; other values (dates, files) are kept as is
+function clone<T>(value: T): T {
+  const raw: unknown = toRaw(value)
+  if (Array.isArray(raw)) return (raw as unknown[]).map(clone) as T
+  if (
+    raw &&
+    typeof raw === 'object' &&
+    Object.getPrototypeOf(raw) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(raw).map(([key, item]) => [key, clone(item)])
+    ) as T
+  }
+  return raw as T
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toRaw(a)) === JSON.stringify(toRaw(b))
+}
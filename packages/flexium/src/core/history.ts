@@ -0,0 +1,204 @@
+import { reactive } from './reactive'
+import { hook } from './hook'
+import {
+  effectScope,
+  onScopeDispose,
+  queuePostFlushCb,
+  sync,
+  unsafeEffect,
+  untrack,
+} from './lifecycle'
+import { updateSignal } from './devtools'
+import { observeKeyedState } from './use'
+
+export interface HistoryOptions {
+  /**
+   * Most undo steps kept
+   * @default 100
+   */
+  limit?: number
+  /**
+   * Merge changes made within this many ms of the previous step into it,
+   * e.g. to undo typing word by word instead of key by key
+   * @default 0
+   */
+  groupWithin?: number
+}
+
+export interface History {
+  undo: () => void
+  redo: () => void
+  readonly canUndo: boolean
+  readonly canRedo: boolean
+  /** Forget every recorded step */
+  clear: () => void
+  /** Stop recording */
+  dispose: () => void
+}
+
+interface Change {
+  container: { value: unknown }
+  before: unknown
+  after: unknown
+}
+
+// One undo step: the changes to each key, in the order they were first made
+type Step = Map<string, Change>
+
+const DEFAULT_LIMIT = 100
+
+/**
+ * Record changes to keyed value state for undo/redo
+ *
+ * Every change made in the same flush, such as the writes inside one
+ * `sync(fn)` batch, becomes a single step. Only values replaced through
+ * their setter are recorded, not in-place mutations.
+ *
+ * @param keys Key prefixes to record, or 'all' keyed state
+ *
+ * @example
+ * ```tsx
+ * const editor = history([['doc']], { groupWithin: 500 })
+ *
+ * <button disabled={!editor.canUndo} onclick={editor.undo}>Undo</button>
+ * <button disabled={!editor.canRedo} onclick={editor.redo}>Redo</button>
+ * ```
+ */
+export function history(
+  keys: unknown[][] | 'all' = 'all',
+  options: HistoryOptions = {}
+): History {
+  return hook(() => {
+    const limit = options.limit ?? DEFAULT_LIMIT
+    const groupWithin = options.groupWithin ?? 0
+    const counts = reactive({ past: 0, future: 0 })
+    const past: Step[] = []
+    const future: Step[] = []
+    // Last value seen per key, so writes made by undo/redo aren't recorded
+    const known = new Map<string, unknown>()
+    let open: Step | undefined
+    let lastChangeAt = 0
+
+    const updateCounts = () => {
+      counts.past = past.length
+      counts.future = future.length
+    }
+
+    const closeStep = () => {
+      open = undefined
+    }
+
+    const record = (key: string, change: Change) => {
+      const now = Date.now()
+      if (!open) {
+        const previous = past[past.length - 1]
+        if (previous && groupWithin > 0 && now - lastChangeAt <= groupWithin) {
+          open = previous
+        } else {
+          open = new Map()
+          past.push(open)
+          if (past.length > limit) past.shift()
+        }
+        queuePostFlushCb(closeStep)
+      }
+      lastChangeAt = now
+
+      const existing = open.get(key)
+      if (existing) {
+        existing.after = change.after
+      } else {
+        open.set(key, change)
+      }
+      future.length = 0
+      updateCounts()
+    }
+
+    const apply = (step: Step, direction: 'before' | 'after') => {
+      const changes = [...step]
+      if (direction === 'before') changes.reverse()
+      sync(() => {
+        changes.forEach(([key, change]) => {
+          const value = change[direction]
+          known.set(key, value)
+          change.container.value = value
+          updateSignal(change.container, value)
+        })
+      })
+      // The next change starts a new step
+      lastChangeAt = 0
+      updateCounts()
+    }
+
+    const matches = (key: string) => {
+      if (keys === 'all') return true
+      const parts = JSON.parse(key) as unknown[]
+      return keys.some(
+        (prefix) =>
+          prefix.length <= parts.length &&
+          prefix.every(
+            (part, i) => JSON.stringify(part) === JSON.stringify(parts[i])
+          )
+      )
+    }
+
+    // Inside a component, recording stops when it unmounts
+    const scope = effectScope()
+    const stopObserving = observeKeyedState((key, container) => {
+      if (container.type !== 'signal' || !matches(key)) return
+
+      known.set(
+        key,
+        untrack(() => container.value)
+      )
+      scope.run(() => {
+        const runner = unsafeEffect(
+          () => {
+            const value = container.value
+            const before = known.get(key)
+            if (value === before) return
+            known.set(key, value)
+            untrack(() => record(key, { container, before, after: value }))
+          },
+          {
+            // Record synchronously so a step holds exactly one flush's changes
+            scheduler: () => runner(),
+          }
+        )
+      })
+    })
+
+    const dispose = () => {
+      stopObserving()
+      scope.stop()
+    }
+    onScopeDispose(dispose)
+
+    return {
+      undo: () => {
+        const step = past.pop()
+        if (!step) return
+        future.push(step)
+        apply(step, 'before')
+      },
+      redo: () => {
+        const step = future.pop()
+        if (!step) return
+        past.push(step)
+        apply(step, 'after')
+      },
+      get canUndo() {
+        return counts.past > 0
+      },
+      get canRedo() {
+        return counts.future > 0
+      },
+      clear: () => {
+        past.length = 0
+        future.length = 0
+        closeStep()
+        updateCounts()
+      },
+      dispose,
+    }
+  })
+}
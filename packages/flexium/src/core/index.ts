@@ -1,17 +1,115 @@
 // Types
 export type { Setter, ResourceControl, UseContext, UseOptions } from './use'
+export type { QueryOptions } from './query'
+export type { PersistOptions, StorageAdapter, StorageName } from './persist'
+export type { History, HistoryOptions } from './history'
+export type {
+  Store,
+  StoreActions,
+  BoundActions,
+  ActionCall,
+  StoreMiddleware,
+  StoreOptions,
+} from './store'
+export type {
+  MutationHelpers,
+  MutationOptions,
+  MutationState,
+  MutationStatus,
+} from './mutation'
 export type { RefObject, RefCallback, Ref, ForwardedRef } from './types'
+export type {
+  Computed,
+  ComputedOptions,
+  EffectScope,
+  Priority,
+  TraceRun,
+  TraceCause,
+  Dependency,
+} from './lifecycle'
+export type {
+  ObservableLike,
+  SocketData,
+  WebSocketSourceOptions,
+} from './sources'
+export type {
+  Form,
+  FormOptions,
+  FormErrors,
+  FieldBinding,
+  FieldArray,
+  StandardSchema,
+} from './form'
+export type {
+  MachineConfig,
+  MachineEvent,
+  MachineState,
+  MachineSnapshot,
+  StateNodeConfig,
+  StateValue,
+  Transition,
+  TransitionConfig,
+  MachineAction,
+  MachineGuard,
+  InvokeConfig,
+  HandledEvent,
+  InitEvent,
+  DoneEvent,
+  ErrorEvent,
+  AfterEvent,
+} from './machine'
+export type {
+  EffectCleanup,
+  EffectOptions,
+  FlushTiming,
+  WatchCallback,
+  WatchOptions,
+  WatchSource,
+} from './effect'
 
 // Functions
-export { use } from './use'
-export { sync } from './lifecycle'
+export { use, snapshotState, restoreState } from './use'
+export { history } from './history'
+export { createStore, storeLogger, storeDevtools, persistStore } from './store'
+export { createMachine, Machine } from './machine'
+export { invalidate } from './query'
+export { useMutation } from './mutation'
+export { useForm } from './form'
+export { onMount, onUnmount, onUpdate } from './mount'
+export {
+  sync,
+  computed,
+  untrack,
+  effectScope,
+  getCurrentScope,
+  onScopeDispose,
+  runWithPriority,
+  onUncaughtError,
+  trace,
+  getDependencies,
+} from './lifecycle'
+export { startTransition, useTransition } from './transition'
 export { useRef } from './ref'
+export { effect, watch } from './effect'
 
-// Useable base class
+// Useable base class and adapters
 export { Useable, isUseable } from './useable'
+export {
+  fromObservable,
+  fromEvent,
+  fromAsyncIterable,
+  fromMediaQuery,
+  WebSocketSource,
+} from './sources'
 
 // Context
-export { Context, getContextValue, pushContext, popContext } from './context'
+export {
+  Context,
+  getContextValue,
+  captureContext,
+  pushContext,
+  popContext,
+} from './context'
 
 // Reactive utilities (for canvas package)
 export { isReactive } from './reactive'
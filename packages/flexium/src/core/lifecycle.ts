@@ -1,57 +1,361 @@
 // Reactive effect system
+import { reportRender } from './devtools'
+import type { TriggerType } from './reactive'
+
 export let activeEffect: ReactiveEffect | undefined
+export let activeScope: EffectScope | undefined
+
+/**
+ * How stale an effect is:
+ * - Clean: up to date
+ * - Check: an upstream computed may have changed, verify before running
+ * - Dirty: a dependency definitely changed
+ */
+export const enum DirtyLevel {
+  Clean = 0,
+  Check = 1,
+  Dirty = 2,
+}
+
+// A dep owned by a computed carries a back reference so subscribers can
+// refresh it while resolving their Check state
+type ComputedDep = Set<ReactiveEffect> & { computed?: Computed<unknown> }
 
 export class ReactiveEffectLike {
-    deps: Set<any>[] = []
-    active = true
+  deps: Set<ReactiveEffect>[] = []
+  active = true
+  dirtyLevel: DirtyLevel = DirtyLevel.Dirty
+  computed?: Computed<unknown>
+  onStop?: () => void
+  /** Shown in error messages, e.g. the component a render effect belongs to */
+  name?: string
+  /** Scope that owned the effect when it was created; errors go up from there */
+  scope?: EffectScope
+  /** Component or callback the effect runs, to find it by in trace() */
+  origin?: EffectOrigin
 
-    constructor(
-        public fn: () => void,
-        public scheduler?: () => void
-    ) { }
+  constructor(
+    public fn: () => void,
+    public scheduler?: () => void
+  ) {
+    if (activeScope && activeScope.active) {
+      activeScope.effects.push(this)
+      this.scope = activeScope
+    }
+  }
 
-    run() {
-        if (!this.active) {
-            return this.fn()
+  /**
+   * Whether the effect needs to run. Resolves the Check state by refreshing
+   * upstream computeds in the order they were read.
+   */
+  get dirty(): boolean {
+    if (this.dirtyLevel === DirtyLevel.Check) {
+      const deps = this.deps.slice()
+      for (let i = 0; i < deps.length; i++) {
+        const computed = (deps[i] as ComputedDep).computed
+        if (computed) {
+          computed.refresh()
+          if ((this.dirtyLevel as DirtyLevel) === DirtyLevel.Dirty) break
         }
+      }
+      if (this.dirtyLevel === DirtyLevel.Check) {
+        this.dirtyLevel = DirtyLevel.Clean
+        // Upstream computeds didn't change after all
+        pendingCauses.delete(this)
+      }
+    }
+    return this.dirtyLevel !== DirtyLevel.Clean
+  }
 
-        let parent: ReactiveEffect | undefined = activeEffect
-        try {
-            this.cleanup()
-            activeEffect = this
-            return this.fn()
-        } finally {
-            activeEffect = parent
-        }
+  run() {
+    this.dirtyLevel = DirtyLevel.Clean
+
+    if (!this.active) {
+      return this.fn()
     }
 
-    stop() {
-        if (this.active) {
-            this.cleanup()
-            this.active = false
-        }
+    if (updateCounts && !this.computed) {
+      const count = (updateCounts.get(this) || 0) + 1
+      updateCounts.set(this, count)
+      if (count > MAX_UPDATE_COUNT) {
+        // Stuck: stop it so the next flush doesn't loop again
+        this.stop()
+        throw new Error(updateLimitMessage(this))
+      }
     }
 
-    cleanup() {
-        const { deps } = this
-        if (deps.length) {
-            for (let i = 0; i < deps.length; i++) {
-                deps[i].delete(this)
-            }
-            deps.length = 0
-        }
+    // Only traced effects have causes
+    const causes = pendingCauses.get(this)
+    const start = causes ? now() : 0
+    pendingCauses.delete(this)
+
+    const parent: ReactiveEffect | undefined = activeEffect
+    try {
+      this.cleanup()
+      activeEffect = this
+      return this.fn()
+    } catch (error) {
+      // The innermost effect owns the error; computeds leave it to
+      // the effect reading them
+      if (!this.computed && isObject(error) && !errorOwners.has(error)) {
+        errorOwners.set(error, this)
+      }
+      throw error
+    } finally {
+      activeEffect = parent
+      if (causes) reportTrace(this, causes, now() - start)
+    }
+  }
+
+  stop() {
+    if (this.active) {
+      this.cleanup()
+      this.active = false
+      if (this.origin) originEffects.get(this.origin)?.delete(this)
+      if (this.onStop) {
+        this.onStop()
+      }
     }
+  }
+
+  cleanup() {
+    const { deps } = this
+    if (deps.length) {
+      for (let i = 0; i < deps.length; i++) {
+        deps[i].delete(this)
+      }
+      deps.length = 0
+    }
+  }
 }
 
 export type ReactiveEffect = ReactiveEffectLike
 
-export function unsafeEffect(fn: () => void, options: { scheduler?: () => void } = {}) {
-    const _effect = new ReactiveEffectLike(fn, options.scheduler)
-    _effect.run()
+/**
+ * Owner of effects, cleanups and nested scopes.
+ *
+ * Effects created while a scope is running are collected by it, and
+ * stopping the scope tears the whole subtree down: child scopes first,
+ * then its own effects, then its cleanups in registration order.
+ */
+export class EffectScope {
+  active = true
+  effects: ReactiveEffect[] = []
+  cleanups: (() => void)[] = []
+  scopes: EffectScope[] = []
+  parent: EffectScope | undefined
+  /**
+   * Called with errors thrown by effects of this scope or its children.
+   * Returning true marks the error handled; otherwise it goes to the parent.
+   */
+  onError?: (
+    error: unknown,
+    effect: ReactiveEffect | undefined
+  ) => boolean | void
+
+  constructor(detached = false) {
+    if (!detached && activeScope) {
+      this.parent = activeScope
+      activeScope.scopes.push(this)
+    }
+  }
+
+  run<T>(fn: () => T): T | undefined {
+    if (!this.active) return undefined
 
-    const runner: any = _effect.run.bind(_effect)
-    runner.effect = _effect
-    return runner
+    const prev = activeScope
+    activeScope = this
+    try {
+      return fn()
+    } finally {
+      activeScope = prev
+    }
+  }
+
+  stop() {
+    if (!this.active) return
+    this.active = false
+
+    const scopes = this.scopes.slice()
+    for (let i = 0; i < scopes.length; i++) {
+      scopes[i].stop()
+    }
+    for (let i = 0; i < this.effects.length; i++) {
+      this.effects[i].stop()
+    }
+    for (let i = 0; i < this.cleanups.length; i++) {
+      this.cleanups[i]()
+    }
+
+    this.scopes.length = 0
+    this.effects.length = 0
+    this.cleanups.length = 0
+
+    if (this.parent) {
+      const siblings = this.parent.scopes
+      const idx = siblings.indexOf(this)
+      if (idx !== -1) siblings.splice(idx, 1)
+      this.parent = undefined
+    }
+  }
+}
+
+/**
+ * Create an effect scope. Unless detached, it is owned by the currently
+ * running scope and stops with it.
+ */
+export function effectScope(detached?: boolean): EffectScope {
+  return new EffectScope(detached)
+}
+
+export function getCurrentScope(): EffectScope | undefined {
+  return activeScope
+}
+
+/**
+ * Register a cleanup on the currently running scope
+ */
+export function onScopeDispose(fn: () => void): void {
+  if (activeScope) {
+    activeScope.cleanups.push(fn)
+  }
+}
+
+/** Re-runs its effect; returned by `unsafeEffect()` */
+export interface EffectRunner {
+  (): void
+  effect: ReactiveEffect
+}
+
+export function unsafeEffect(
+  fn: () => void,
+  options: { scheduler?: () => void } = {}
+): EffectRunner {
+  const _effect = new ReactiveEffectLike(fn, options.scheduler)
+  _effect.run()
+
+  return Object.assign(() => _effect.run(), { effect: _effect })
+}
+
+export interface ComputedOptions<T> {
+  /**
+   * Decides whether a recomputed value counts as a change.
+   * Returning true stops propagation to dependents.
+   * @default Object.is
+   */
+  equals?: (previous: T, next: T) => boolean
+}
+
+/**
+ * Lazily evaluated, memoized derived value.
+ *
+ * A computed only recomputes when read after one of its dependencies changed,
+ * so diamond-shaped graphs evaluate each node at most once per flush and
+ * never expose a half-updated value.
+ */
+export class Computed<T> {
+  readonly dep: ComputedDep = new Set()
+  readonly effect: ReactiveEffectLike
+  private _value: T | undefined = undefined
+  private hasValue = false
+  // Kept untyped so a Computed<T> is also a Computed<unknown>
+  private readonly equals: (previous: unknown, next: unknown) => boolean
+
+  constructor(getter: () => T, options: ComputedOptions<T> = {}) {
+    this.dep.computed = this
+    this.effect = new ReactiveEffectLike(getter)
+    this.effect.computed = this
+    this.equals = (options.equals || Object.is) as (
+      previous: unknown,
+      next: unknown
+    ) => boolean
+  }
+
+  get value(): T {
+    trackEffect(this.dep)
+    this.refresh()
+    return this._value as T
+  }
+
+  /**
+   * Read the up-to-date value without subscribing the caller
+   */
+  peek(): T {
+    this.refresh()
+    return this._value as T
+  }
+
+  /**
+   * Bring the cached value up to date
+   */
+  refresh(): void {
+    const { effect } = this
+    if (!effect.dirty) return
+
+    const next = effect.run() as T
+    const changed = !this.hasValue || !this.equals(this._value, next)
+    this._value = next
+    this.hasValue = true
+
+    if (changed) {
+      // Subscribers waiting on a Check now know they must run
+      this.dep.forEach((sub) => {
+        if (sub.dirtyLevel === DirtyLevel.Check) {
+          sub.dirtyLevel = DirtyLevel.Dirty
+        }
+      })
+    }
+  }
+
+  /**
+   * Force a recompute on the next read (e.g. when inputs live outside the
+   * reactive graph)
+   */
+  markDirty(): void {
+    notifyEffect(this.effect, DirtyLevel.Dirty)
+  }
+
+  stop(): void {
+    this.effect.stop()
+  }
+}
+
+/**
+ * Create a lazily evaluated, memoized derived value
+ *
+ * @example
+ * ```ts
+ * const state = reactive({ first: 'Ada', last: 'Lovelace' })
+ * const full = computed(() => `${state.first} ${state.last}`)
+ * full.value // 'Ada Lovelace'
+ * ```
+ */
+export function computed<T>(
+  getter: () => T,
+  options?: ComputedOptions<T>
+): Computed<T> {
+  return new Computed(getter, options)
+}
+
+/**
+ * Run fn without subscribing the current effect to anything it reads
+ *
+ * @example
+ * ```ts
+ * effect(() => {
+ *   // Re-runs when state.count changes, not when state.step does
+ *   console.log(state.count, untrack(() => state.step))
+ * })
+ * ```
+ */
+export function untrack<T>(fn: () => T): T {
+  const prev = activeEffect
+  activeEffect = undefined
+  try {
+    return fn()
+  } finally {
+    activeEffect = prev
+  }
 }
 
 export function trackEffect(dep: Set<ReactiveEffect>) {
@@ -61,44 +365,688 @@ export function trackEffect(dep: Set<ReactiveEffect>) {
     }
 }
 
-const queue = new Set<ReactiveEffect>()
+/**
+ * How urgently a queued effect runs:
+ * - sync: before `runWithPriority('sync', fn)` returns
+ * - user-blocking: first in the next microtask flush, e.g. input feedback
+ * - normal: in the next microtask flush (default)
+ * - transition: deferred and time-sliced; urgent work runs in between
+ * - idle: once transitions are done and nothing else is queued
+ */
+export type Priority =
+  | 'sync'
+  | 'user-blocking'
+  | 'normal'
+  | 'transition'
+  | 'idle'
+
+// Lower rank runs first; an effect queued in several lanes keeps the most urgent
+const LANE_RANK: Record<Priority, number> = {
+  sync: 0,
+  'user-blocking': 1,
+  normal: 2,
+  transition: 3,
+  idle: 4,
+}
+const URGENT_LANES: Priority[] = ['sync', 'user-blocking', 'normal']
+const DEFERRED_LANES: Priority[] = ['transition', 'idle']
+// Longest a deferred slice runs before yielding to the browser (ms)
+const SLICE_BUDGET = 5
+
+const lanes: Record<Priority, Set<ReactiveEffect>> = {
+  sync: new Set(),
+  'user-blocking': new Set(),
+  normal: new Set(),
+  transition: new Set(),
+  idle: new Set(),
+}
+const queuedLane = new WeakMap<ReactiveEffect, Priority>()
+let currentPriority: Priority = 'normal'
+
+// Callbacks that run before (pre) and after (post) render effects in a flush
+const preFlushCbs = new Set<() => void>()
+const postFlushCbs = new Set<() => void>()
+// Waiting for the transition lane to drain
+const transitionCbs: (() => void)[] = []
 let isFlushPending = false
 let isBatching = false
+let isDeferredPending = false
+
+function queueFlush() {
+  if (!isFlushPending && !isBatching) {
+    isFlushPending = true
+    // flush() reports the errors of jobs itself
+    void Promise.resolve().then(flush)
+  }
+}
 
 export function queueJob(effect: ReactiveEffect) {
-    if (!queue.has(effect)) {
-        queue.add(effect)
-        if (!isFlushPending && !isBatching) {
-            isFlushPending = true
-            Promise.resolve().then(flush)
+  const lane = currentPriority
+  const queued = queuedLane.get(effect)
+  if (queued !== undefined) {
+    if (LANE_RANK[queued] <= LANE_RANK[lane]) return
+    lanes[queued].delete(effect)
+  }
+
+  queuedLane.set(effect, lane)
+  lanes[lane].add(effect)
+  if (LANE_RANK[lane] > LANE_RANK.normal) {
+    queueDeferredFlush()
+  } else {
+    queueFlush()
+  }
+}
+
+/**
+ * Queue a callback before render effects. `owner` is the effect whose scope
+ * handles errors thrown by the callback.
+ */
+export function queuePreFlushCb(cb: () => void, owner?: ReactiveEffect) {
+  if (!preFlushCbs.has(cb)) {
+    preFlushCbs.add(cb)
+    if (owner) callbackOwners.set(cb, owner)
+    queueFlush()
+  }
+}
+
+/**
+ * Queue a callback after render effects. `owner` is the effect whose scope
+ * handles errors thrown by the callback.
+ */
+export function queuePostFlushCb(cb: () => void, owner?: ReactiveEffect) {
+  if (!postFlushCbs.has(cb)) {
+    postFlushCbs.add(cb)
+    if (owner) callbackOwners.set(cb, owner)
+    queueFlush()
+  }
+}
+
+function runJob(effect: ReactiveEffect, lane: Priority) {
+  queuedLane.delete(effect)
+  if (!effect.active || !effect.dirty) return
+
+  // Updates made by the job stay in its lane
+  const prev = currentPriority
+  currentPriority = lane
+  try {
+    effect.run()
+  } finally {
+    currentPriority = prev
+  }
+}
+
+/**
+ * Run pre callbacks, urgent effects (most urgent lane first) and post
+ * callbacks, until no urgent work is left. Deferred lanes are left to their
+ * own time-sliced flush.
+ *
+ * An error thrown by one job is reported and the rest of the queue still
+ * runs. An effect re-running more than MAX_UPDATE_COUNT times is stopped
+ * with an error instead of looping forever.
+ */
+export function flush() {
+  isFlushPending = false
+  // Nested flushes (e.g. runWithPriority('sync') inside an effect) count
+  // towards the outermost one
+  const outermost = !updateCounts
+  if (outermost) updateCounts = new Map()
+
+  try {
+    do {
+      isFlushPending = false
+
+      runCallbacks(preFlushCbs)
+
+      for (const lane of URGENT_LANES) {
+        const effects = [...lanes[lane]]
+        lanes[lane].clear()
+        for (const effect of effects) {
+          try {
+            runJob(effect, lane)
+          } catch (error) {
+            handleError(error, effect)
+          }
         }
+      }
+
+      // Post callbacks see the DOM patched by the render effects above
+      runCallbacks(postFlushCbs)
+      // Jobs queued by this pass run in the next one
+    } while (isFlushPending)
+  } finally {
+    if (outermost) updateCounts = undefined
+  }
+}
+
+function runCallbacks(queue: Set<() => void>) {
+  const cbs = [...queue]
+  queue.clear()
+  for (const cb of cbs) {
+    try {
+      cb()
+    } catch (error) {
+      handleError(error, callbackOwners.get(cb))
     }
+  }
 }
 
-export function flush() {
-    isFlushPending = false
-    const effects = [...queue]
-    queue.clear()
-    for (const effect of effects) {
-        if (effect.active) {
-            effect.run()
+const now =
+  typeof performance !== 'undefined'
+    ? () => performance.now()
+    : () => Date.now()
+
+let deferredChannel: MessageChannel | undefined
+
+// Yield to the host (input, paint, urgent microtasks) before the next slice
+function queueDeferredFlush() {
+  if (isDeferredPending) return
+  isDeferredPending = true
+
+  const { scheduler } = globalThis as {
+    scheduler?: { yield?: () => Promise<void> }
+  }
+  if (scheduler && typeof scheduler.yield === 'function') {
+    void scheduler.yield().then(flushDeferred)
+  } else if (typeof MessageChannel !== 'undefined') {
+    if (!deferredChannel) {
+      deferredChannel = new MessageChannel()
+      deferredChannel.port1.onmessage = flushDeferred
+    }
+    deferredChannel.port2.postMessage(null)
+  } else {
+    setTimeout(flushDeferred, 0)
+  }
+}
+
+/**
+ * Run deferred effects until the slice budget is used up or urgent work is
+ * queued, then yield. Pass Infinity to drain the deferred lanes.
+ */
+function flushDeferred(budget: unknown = SLICE_BUDGET) {
+  isDeferredPending = false
+  const deadline = now() + (typeof budget === 'number' ? budget : SLICE_BUDGET)
+
+  for (const lane of DEFERRED_LANES) {
+    const queue = lanes[lane]
+    for (const effect of queue) {
+      // Urgent updates interrupt: they run before the rest of the lane
+      if (isFlushPending || now() >= deadline) {
+        queueDeferredFlush()
+        return
+      }
+      queue.delete(effect)
+      try {
+        runJob(effect, lane)
+      } catch (error) {
+        handleError(error, effect)
+      }
+    }
+
+    if (lane === 'transition' && !queue.size) {
+      const cbs = transitionCbs.splice(0)
+      for (const cb of cbs) {
+        try {
+          cb()
+        } catch (error) {
+          handleError(error, undefined)
         }
+      }
+    }
+  }
+}
+
+/**
+ * Run fn with its updates queued at the given priority
+ */
+export function runWithPriority<T>(priority: Priority, fn: () => T): T {
+  const prev = currentPriority
+  currentPriority = priority
+  try {
+    return fn()
+  } finally {
+    currentPriority = prev
+    if (priority === 'sync') {
+      flush()
     }
+  }
+}
+
+export function getCurrentPriority(): Priority {
+  return currentPriority
+}
+
+/**
+ * Run cb after delay ms in the lane it was scheduled from. Errors go to
+ * scope like those of effects.
+ *
+ * @returns Function cancelling the timer
+ * @internal
+ */
+export function scheduleTimeout(
+  cb: () => void,
+  delay: number,
+  scope: EffectScope | undefined = activeScope
+): () => void {
+  const priority = currentPriority
+  const timer = setTimeout(() => {
+    try {
+      runWithPriority(priority, cb)
+    } catch (error) {
+      reportError(error, scope)
+    }
+  }, delay)
+  return () => clearTimeout(timer)
+}
+
+/**
+ * Call cb once every queued transition update has run
+ */
+export function onTransitionsSettled(cb: () => void): void {
+  if (lanes.transition.size) {
+    transitionCbs.push(cb)
+  } else {
+    cb()
+  }
 }
 
 export function setBatching(value: boolean) {
     isBatching = value
 }
 
-export function triggerEffects(dep: Set<ReactiveEffect>) {
+// Effects re-running more often than this in one flush are considered stuck
+const MAX_UPDATE_COUNT = 100
+
+// Runs per effect during the outermost flush
+let updateCounts: Map<ReactiveEffect, number> | undefined
+// Effect that threw an error, to find the scope handling it
+const errorOwners = new WeakMap<object, ReactiveEffect>()
+const callbackOwners = new WeakMap<() => void, ReactiveEffect>()
+const uncaughtErrorHandlers = new Set<(error: unknown) => void>()
+
+/** A write that triggered effects */
+export interface TriggerSource {
+  target: object
+  type: TriggerType
+  key: unknown
+  oldValue?: unknown
+  newValue?: unknown
+}
+
+// Dev only: the write that last queued each effect, and names of reactive
+// objects, to explain update loops
+const lastTriggers = new WeakMap<ReactiveEffect, TriggerSource>()
+const debugNames = new WeakMap<object, string>()
+
+function isObject(value: unknown): value is object {
+  return (
+    (typeof value === 'object' && value !== null) || typeof value === 'function'
+  )
+}
+
+/**
+ * Name a raw reactive object in dev error messages
+ * @internal
+ */
+export function setDebugName(target: object, name: string) {
+  if (process.env.NODE_ENV !== 'production') {
+    debugNames.set(target, name)
+  }
+}
+
+function updateLimitMessage(effect: ReactiveEffect): string {
+  if (process.env.NODE_ENV === 'production') {
+    return '[Flexium] Maximum update count exceeded'
+  }
+
+  const name = effect.name || effect.fn.name || 'anonymous effect'
+  const source = lastTriggers.get(effect)
+  const signal = source
+    ? `${debugNames.get(source.target) || 'unnamed state'}.${String(source.key)}`
+    : 'unknown state'
+  return (
+    `[Flexium] Maximum update count exceeded: ${name} re-ran ${MAX_UPDATE_COUNT} times ` +
+    `in one flush, last triggered by a write to ${signal}. ` +
+    'An effect probably writes to state it reads; read it with untrack() or derive it with computed().'
+  )
+}
+
+/**
+ * Report an error thrown by a job to the nearest scope handling it, then to
+ * the onUncaughtError handlers, then to the console
+ */
+function handleError(error: unknown, effect: ReactiveEffect | undefined) {
+  const owner = (isObject(error) && errorOwners.get(error)) || effect
+  routeError(error, owner?.scope, owner)
+}
+
+/**
+ * Report an error thrown outside of effects (e.g. by a callback of an async
+ * operation) like the errors of effects owned by scope
+ *
+ * @internal
+ */
+export function reportError(
+  error: unknown,
+  scope: EffectScope | undefined = activeScope
+): void {
+  routeError(error, scope, undefined)
+}
+
+function routeError(
+  error: unknown,
+  scope: EffectScope | undefined,
+  effect: ReactiveEffect | undefined
+) {
+  for (; scope; scope = scope.parent) {
+    if (scope.onError && scope.onError(error, effect) === true) return
+  }
+
+  if (uncaughtErrorHandlers.size) {
+    uncaughtErrorHandlers.forEach((handler) => handler(error))
+  } else {
+    console.error('[Flexium] Uncaught error in effect:', error)
+  }
+}
+
+/**
+ * Handle errors thrown by effects that no ErrorBoundary caught, e.g. to
+ * report them to an error tracker. Without a handler they are logged.
+ *
+ * @returns Function removing the handler
+ *
+ * @example
+ * ```ts
+ * onUncaughtError(error => Sentry.captureException(error))
+ * ```
+ */
+export function onUncaughtError(handler: (error: unknown) => void): () => void {
+  uncaughtErrorHandlers.add(handler)
+  return () => {
+    uncaughtErrorHandlers.delete(handler)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tracing (dev only)
+// ---------------------------------------------------------------------------
+
+/** A write that made a traced effect re-run */
+export interface TraceCause {
+  /** Raw object written to */
+  target: object
+  /** Debug name of the target, e.g. from `use(value, { name })` */
+  name?: string
+  type: TriggerType
+  key: unknown
+  oldValue: unknown
+  newValue: unknown
+  /** Stack of the write */
+  stack?: string
+}
+
+/** One re-run of a traced effect or component */
+export interface TraceRun {
+  /** Effect name, `<Component>` for render effects */
+  name: string
+  causes: TraceCause[]
+  /** Time the run took in ms */
+  duration: number
+}
+
+/** Something an effect currently depends on */
+export interface Dependency {
+  /** Raw object read, or the computed read */
+  target: object
+  /** Key read; undefined for computeds */
+  key?: unknown
+  /** Debug name of the target */
+  name?: string
+}
+
+// Component or callback an effect runs
+type EffectOrigin = (...args: never[]) => unknown
+
+type TraceTarget = ReactiveEffect | EffectOrigin
+
+const traceHandlers = new WeakMap<object, Set<(run: TraceRun) => void>>()
+// Writes seen by traced effects since their last run
+const pendingCauses = new WeakMap<ReactiveEffect, TraceCause[]>()
+// Live effects by the component or callback they run
+const originEffects = new WeakMap<EffectOrigin, Set<ReactiveEffect>>()
+const depSources = new WeakMap<
+  Set<ReactiveEffect>,
+  { target: object; key: unknown }
+>()
+
+/**
+ * Remember the component or callback an effect runs, so trace() and
+ * getDependencies() can find it
+ * @internal
+ */
+export function setEffectOrigin(effect: ReactiveEffect, origin: EffectOrigin) {
+  if (process.env.NODE_ENV === 'production') return
+  effect.origin = origin
+  let effects = originEffects.get(origin)
+  if (!effects) {
+    originEffects.set(origin, (effects = new Set()))
+  }
+  effects.add(effect)
+}
+
+/**
+ * Remember which target and key a dep belongs to
+ * @internal
+ */
+export function registerDep(
+  dep: Set<ReactiveEffect>,
+  target: object,
+  key: unknown
+) {
+  if (process.env.NODE_ENV !== 'production') {
+    depSources.set(dep, { target, key })
+  }
+}
+
+function isTraced(effect: ReactiveEffect): boolean {
+  return (
+    traceHandlers.has(effect) ||
+    (!!effect.origin && traceHandlers.has(effect.origin))
+  )
+}
+
+function createCause(source: TriggerSource): TraceCause {
+  return {
+    target: source.target,
+    name: debugNames.get(source.target),
+    type: source.type,
+    key: source.key,
+    oldValue: source.oldValue,
+    newValue: source.newValue,
+    stack: new Error().stack,
+  }
+}
+
+function describeCause(cause: TraceCause): string {
+  return `${cause.name || 'unnamed state'}.${String(cause.key)}`
+}
+
+function reportTrace(
+  effect: ReactiveEffect,
+  causes: TraceCause[],
+  duration: number
+) {
+  const run: TraceRun = {
+    name: effect.name || effect.fn.name || 'anonymous effect',
+    causes,
+    duration,
+  }
+  traceHandlers.get(effect)?.forEach((handler) => handler(run))
+  if (effect.origin) {
+    traceHandlers.get(effect.origin)?.forEach((handler) => handler(run))
+  }
+  reportRender(
+    run.name,
+    causes.map(describeCause).join(', '),
+    duration,
+    causes.map((cause) => ({
+      signal: describeCause(cause),
+      oldValue: cause.oldValue,
+      newValue: cause.newValue,
+      stack: cause.stack,
+    }))
+  )
+}
+
+function logTraceRun(run: TraceRun) {
+  console.warn(`[Flexium] ${run.name} re-ran because of:`)
+  run.causes.forEach((cause) => {
+    console.warn(
+      `  ${describeCause(cause)} (${cause.type}):`,
+      cause.oldValue,
+      '->',
+      cause.newValue,
+      cause.stack
+    )
+  })
+}
+
+// Runners returned by unsafeEffect() stand for their effect
+function runnerEffect(target: object): ReactiveEffect | undefined {
+  const effect = Reflect.get(target, 'effect') as unknown
+  return effect instanceof ReactiveEffectLike ? effect : undefined
+}
+
+function effectsOf(target: TraceTarget | Computed<unknown>): ReactiveEffect[] {
+  if (target instanceof Computed) return [target.effect]
+  if (target instanceof ReactiveEffectLike) return [target]
+  const runner = runnerEffect(target)
+  if (runner) return [runner]
+  return [...(originEffects.get(target) || [])]
+}
+
+/**
+ * Explain why an effect or component re-runs (dev only)
+ *
+ * Every re-run reports the writes that caused it: target, key, old and new
+ * value and the stack of the write. Runs are logged as warnings unless
+ * `onRun` is given, and are sent to the Flexium DevTools.
+ *
+ * @param target A component, a function passed to `effect()` or `watch()`,
+ * or an effect
+ * @returns Function stopping the trace
+ *
+ * @example
+ * ```ts
+ * const stop = trace(TodoList)
+ * // [Flexium] <TodoList> re-ran because of:
+ * //   todos.value (set): [...] -> [...] Error at addTodo (app.tsx:12)
+ * ```
+ */
+export function trace(
+  target: TraceTarget,
+  onRun: (run: TraceRun) => void = logTraceRun
+): () => void {
+  if (process.env.NODE_ENV === 'production') return () => {}
+
+  const key: object = runnerEffect(target) ?? target
+  let handlers = traceHandlers.get(key)
+  if (!handlers) {
+    handlers = new Set()
+    traceHandlers.set(key, handlers)
+  }
+  const registered = handlers
+  registered.add(onRun)
+
+  return () => {
+    registered.delete(onRun)
+    if (!registered.size) traceHandlers.delete(key)
+  }
+}
+
+/**
+ * List what an effect, computed or component currently depends on (dev only)
+ *
+ * @example
+ * ```ts
+ * getDependencies(TodoList)
+ * // [{ target: {...}, key: 'value', name: 'todos' }]
+ * ```
+ */
+export function getDependencies(
+  target: TraceTarget | Computed<unknown>
+): Dependency[] {
+  const dependencies: Dependency[] = []
+  const seen = new Set<Set<ReactiveEffect>>()
+  effectsOf(target).forEach((effect) => {
+    effect.deps.forEach((dep) => {
+      if (seen.has(dep)) return
+      seen.add(dep)
+
+      const computed = (dep as ComputedDep).computed
+      const source = depSources.get(dep)
+      if (computed) {
+        dependencies.push({ target: computed, name: computed.effect.name })
+      } else if (source) {
+        dependencies.push({
+          target: source.target,
+          key: source.key,
+          name: debugNames.get(source.target),
+        })
+      }
+    })
+  })
+  return dependencies
+}
+
+function notifyEffect(
+  effect: ReactiveEffect,
+  level: DirtyLevel,
+  source?: TriggerSource
+) {
+  const wasClean = effect.dirtyLevel === DirtyLevel.Clean
+  if (effect.dirtyLevel < level) {
+    effect.dirtyLevel = level
+  }
+
+  if (effect.computed) {
+    // Computeds stay lazy: only tell their subscribers to check once
+    if (wasClean) {
+      effect.computed.dep.forEach((sub) => {
+        if (sub !== activeEffect) {
+          notifyEffect(sub, DirtyLevel.Check, source)
+        }
+      })
+    }
+    return
+  }
+
+  if (source && process.env.NODE_ENV !== 'production') {
+    lastTriggers.set(effect, source)
+    if (isTraced(effect)) {
+      const causes = pendingCauses.get(effect) || []
+      causes.push(createCause(source))
+      pendingCauses.set(effect, causes)
+    }
+  }
+  if (effect.scheduler) {
+    effect.scheduler()
+  } else {
+    queueJob(effect)
+  }
+}
+
+/**
+ * Notify the effects of a dep. The source describes the write in dev error
+ * messages and traces.
+ */
+export function triggerEffects(
+    dep: Set<ReactiveEffect>,
+    source?: TriggerSource
+) {
     const effects = [...dep]
     for (const effect of effects) {
         if (effect !== activeEffect) {
-            if (effect.scheduler) {
-                effect.scheduler()
-            } else {
-                queueJob(effect)
-            }
+            notifyEffect(effect, DirtyLevel.Dirty, source)
         }
     }
 }
@@ -115,9 +1063,17 @@ export function sync(fn?: () => void) {
             fn()
         } finally {
             setBatching(false)
-            flush()
+            flushAll()
         }
     } else {
-        flush()
+        flushAll()
     }
 }
+
+// Flush every lane, deferred ones included, until nothing is queued
+function flushAll() {
+  do {
+    flush()
+    flushDeferred(Infinity)
+  } while (isFlushPending || lanes.transition.size || lanes.idle.size)
+}
@@ -0,0 +1,605 @@
+import { Useable } from './useable'
+import { scheduleTimeout } from './lifecycle'
+
+export interface MachineEvent {
+  type: string
+}
+
+/** Active state: a name, or nested/parallel states as an object */
+export type StateValue = string | { [key: string]: StateValue }
+
+/**
+ * Runs on a transition, entry or exit. Returned fields are merged into the
+ * context.
+ */
+export type MachineAction<C, E> =
+  | string
+  | ((context: C, event: E) => Partial<C> | void)
+
+export type MachineGuard<C, E> = string | ((context: C, event: E) => boolean)
+
+export interface TransitionConfig<C, E> {
+  /** Sibling state name or dotted path, resolved from the nearest ancestor having it */
+  target?: string
+  guard?: MachineGuard<C, E>
+  actions?: MachineAction<C, E> | MachineAction<C, E>[]
+}
+
+/** A target, or transitions tried in order until one's guard passes */
+export type Transition<C, E> =
+  | string
+  | TransitionConfig<C, E>
+  | TransitionConfig<C, E>[]
+
+export type TransitionMap<C, E extends MachineEvent> = {
+  [K in E['type']]?: Transition<C, Extract<E, { type: K }>>
+}
+
+/**
+ * Events sent by the machine itself: when it starts, and for delayed and
+ * invoked transitions
+ */
+export interface InitEvent {
+  type: 'init'
+}
+
+export interface DoneEvent<D = unknown> {
+  type: 'done'
+  data: D
+}
+
+export interface ErrorEvent {
+  type: 'error'
+  error: unknown
+}
+
+export interface AfterEvent {
+  type: 'after'
+  delay: number
+}
+
+/** Events a machine with events E handles, its own included */
+export type HandledEvent<E extends MachineEvent> =
+  | E
+  | InitEvent
+  | DoneEvent
+  | ErrorEvent
+  | AfterEvent
+
+export interface InvokeConfig<C, D = unknown> {
+  /** Started on entry; aborted when the state is left first */
+  src: (context: C, signal: AbortSignal) => Promise<D>
+  onDone?: Transition<C, DoneEvent<D>>
+  onError?: Transition<C, ErrorEvent>
+}
+
+export interface StateNodeConfig<C, E extends MachineEvent> {
+  /**
+   * 'parallel' states are in all their child states at once; reaching a
+   * top-level 'final' state marks the machine done
+   */
+  type?: 'parallel' | 'final'
+  /** Child state entered by default */
+  initial?: string
+  states?: Record<string, StateNodeConfig<C, E>>
+  on?: TransitionMap<C, E>
+  /** Transitions taken after a state has been active for some ms */
+  after?: Record<number, Transition<C, AfterEvent>>
+  entry?: MachineAction<C, E> | MachineAction<C, E>[]
+  exit?: MachineAction<C, E> | MachineAction<C, E>[]
+  invoke?: InvokeConfig<C>
+}
+
+export interface MachineConfig<
+  C,
+  E extends MachineEvent,
+> extends StateNodeConfig<C, E> {
+  /** Name used in error messages */
+  id?: string
+  context?: C
+  /** Guards referenced by name */
+  guards?: Record<string, (context: C, event: HandledEvent<E>) => boolean>
+  /** Actions referenced by name */
+  actions?: Record<
+    string,
+    (context: C, event: HandledEvent<E>) => Partial<C> | void
+  >
+}
+
+export interface MachineState<C> {
+  value: StateValue
+  context: C
+  /** True once a top-level final state is reached */
+  done: boolean
+  /** Whether a state, given as a dotted path like 'checkout.payment', is active */
+  matches: (path: string) => boolean
+}
+
+/** The serializable part of a machine state */
+export interface MachineSnapshot<C = unknown> {
+  value: StateValue
+  context: C
+}
+
+interface StateNode<C, E extends MachineEvent> {
+  key: string
+  path: string
+  parent?: StateNode<C, E>
+  config: StateNodeConfig<C, E>
+  children: StateNode<C, E>[]
+}
+
+// Accepts the actions of any event; each is called with the event it is for
+type AnyAction<C> = MachineAction<C, never>
+
+const INIT_EVENT: InitEvent = { type: 'init' }
+
+/**
+ * A finite state machine read through `use(machine)`, which returns
+ * `[state, send]`
+ *
+ * Timers and invoked services start when the machine is first used or sent
+ * an event, so creating one at module level is safe on the server. They
+ * stop once the last component using it unmounts.
+ */
+export class Machine<
+  C = undefined,
+  E extends MachineEvent = MachineEvent,
+> extends Useable<MachineState<C>, void, [(event: E | E['type']) => void]> {
+  readonly id: string
+  private readonly config: MachineConfig<C, E>
+  private readonly root: StateNode<C, E>
+  private readonly active = new Set<StateNode<C, E>>()
+  private readonly activities = new Map<StateNode<C, E>, () => void>()
+  private readonly listeners = new Set<(state: MachineState<C>) => void>()
+  private context: C
+  private state: MachineState<C>
+  private running = false
+
+  constructor(config: MachineConfig<C, E>) {
+    super()
+    this.id = config.id ?? 'machine'
+    this.config = config
+    this.context = config.context as C
+    this.root = this.createNode('', config)
+
+    this.enter([this.root], INIT_EVENT)
+    this.state = this.createState()
+  }
+
+  /**
+   * Send an event; transitions run synchronously
+   */
+  readonly send = (event: E | E['type']): void => {
+    const e = (typeof event === 'string' ? { type: event } : event) as E
+    this.start()
+
+    const selected: [StateNode<C, E>, TransitionConfig<C, E>][] = []
+    this.leaves().forEach((leaf) => {
+      for (
+        let node: StateNode<C, E> | undefined = leaf;
+        node;
+        node = node.parent
+      ) {
+        const on = node.config.on?.[e.type as E['type']]
+        const transition = this.pick(
+          node,
+          on as Transition<C, E> | undefined,
+          e
+        )
+        if (transition) {
+          if (!selected.some(([source]) => source === node))
+            selected.push([node, transition])
+          break
+        }
+      }
+    })
+    if (selected.length === 0) return
+
+    selected.forEach(([source, transition]) => this.take(source, transition, e))
+    this.update()
+  }
+
+  /**
+   * Current state, including for code outside components
+   */
+  getSnapshot(): MachineState<C> {
+    return this.state
+  }
+
+  /**
+   * Continue from a snapshot, e.g. one serialized during server rendering.
+   * Entry actions don't run again.
+   */
+  restore(snapshot: MachineSnapshot<C>): void {
+    this.activities.forEach((stop) => stop())
+    this.activities.clear()
+    this.active.clear()
+    this.context = snapshot.context
+    this.activate(this.root, snapshot.value)
+    if (this.running) {
+      this.nodes().forEach((node) => this.startActivities(node))
+    }
+    this.update()
+  }
+
+  /**
+   * Cancel pending delayed transitions and invoked services
+   */
+  stop(): void {
+    this.running = false
+    this.activities.forEach((stop) => stop())
+    this.activities.clear()
+  }
+
+  toJSON(): MachineSnapshot<C> {
+    return { value: this.state.value, context: this.context }
+  }
+
+  getInitial(): MachineState<C> {
+    return this.state
+  }
+
+  subscribe(
+    _params: void | undefined,
+    callback: (state: MachineState<C>) => void
+  ): () => void {
+    // Server renders show the initial state without starting timers
+    if (typeof window === 'undefined') return () => {}
+
+    this.listeners.add(callback)
+    this.start()
+    return () => {
+      if (this.listeners.delete(callback) && this.listeners.size === 0)
+        this.stop()
+    }
+  }
+
+  getActions(): [(event: E | E['type']) => void] {
+    return [this.send]
+  }
+
+  private createNode(
+    key: string,
+    config: StateNodeConfig<C, E>,
+    parent?: StateNode<C, E>
+  ): StateNode<C, E> {
+    const node: StateNode<C, E> = {
+      key,
+      path: parent?.path ? `${parent.path}.${key}` : key,
+      parent,
+      config,
+      children: [],
+    }
+    node.children = Object.entries(config.states ?? {}).map(
+      ([childKey, child]) => this.createNode(childKey, child, node)
+    )
+
+    if (node.children.length && config.type !== 'parallel') {
+      const initial = config.initial ?? node.children[0].key
+      if (!node.children.some((child) => child.key === initial)) {
+        throw new Error(
+          `Machine "${this.id}" has no state "${initial}" in "${node.path || '(root)'}"`
+        )
+      }
+    }
+    return node
+  }
+
+  private start() {
+    if (this.running) return
+    this.running = true
+    this.nodes().forEach((node) => this.startActivities(node))
+  }
+
+  // Active nodes in document order
+  private nodes(): StateNode<C, E>[] {
+    const ordered: StateNode<C, E>[] = []
+    const visit = (node: StateNode<C, E>) => {
+      if (!this.active.has(node)) return
+      ordered.push(node)
+      node.children.forEach(visit)
+    }
+    visit(this.root)
+    return ordered
+  }
+
+  private leaves(): StateNode<C, E>[] {
+    return this.nodes().filter(
+      (node) => !node.children.some((child) => this.active.has(child))
+    )
+  }
+
+  private pick<Ev extends MachineEvent>(
+    node: StateNode<C, E>,
+    transition: Transition<C, Ev> | undefined,
+    event: Ev
+  ): TransitionConfig<C, Ev> | undefined {
+    if (!transition) return undefined
+    const candidates: TransitionConfig<C, Ev>[] =
+      typeof transition === 'string'
+        ? [{ target: transition }]
+        : Array.isArray(transition)
+          ? transition
+          : [transition]
+
+    return candidates.find((candidate) => {
+      if (!candidate.guard) return true
+      const guard = (
+        typeof candidate.guard === 'string'
+          ? this.config.guards?.[candidate.guard]
+          : candidate.guard
+      ) as ((context: C, event: Ev) => boolean) | undefined
+      if (!guard) {
+        throw new Error(
+          `Machine "${this.id}" has no guard "${String(candidate.guard)}" (used in "${node.path || '(root)'}")`
+        )
+      }
+      return guard(this.context, event)
+    })
+  }
+
+  private take<Ev extends MachineEvent>(
+    source: StateNode<C, E>,
+    transition: TransitionConfig<C, Ev>,
+    event: Ev
+  ) {
+    // An earlier transition in this step may have left the state
+    if (!this.active.has(source)) return
+
+    if (transition.target === undefined) {
+      this.run(transition.actions, event)
+      return
+    }
+
+    const target = this.resolve(source, transition.target)
+    // Nearest state containing both; targeting the source or a child of it
+    // exits and re-enters the source
+    let common = source.parent
+    while (common && !isAncestor(common, target)) common = common.parent
+    const domain = common ?? this.root
+
+    this.nodes()
+      .filter((node) => isAncestor(domain, node))
+      .reverse()
+      .forEach((node) => {
+        this.activities.get(node)?.()
+        this.activities.delete(node)
+        this.run(node.config.exit, event)
+        this.active.delete(node)
+      })
+
+    this.run(transition.actions, event)
+
+    const path: StateNode<C, E>[] = []
+    for (
+      let node: StateNode<C, E> | undefined = target;
+      node && node !== domain;
+      node = node.parent
+    ) {
+      path.unshift(node)
+    }
+    const entered = this.enter(path, event)
+    if (this.running) entered.forEach((node) => this.startActivities(node))
+  }
+
+  // Enter the nodes of path (each a child of the previous) and their default children
+  private enter(
+    path: StateNode<C, E>[],
+    event: MachineEvent,
+    entered: StateNode<C, E>[] = []
+  ): StateNode<C, E>[] {
+    const [node, ...rest] = path
+    this.active.add(node)
+    entered.push(node)
+    this.run(node.config.entry, event)
+
+    if (node.config.type === 'parallel') {
+      node.children.forEach((child) =>
+        this.enter(child === rest[0] ? rest : [child], event, entered)
+      )
+    } else if (rest.length) {
+      this.enter(rest, event, entered)
+    } else if (node.children.length) {
+      const initial = node.config.initial ?? node.children[0].key
+      // createNode() checked that the initial state exists
+      const child =
+        node.children.find((c) => c.key === initial) ?? node.children[0]
+      this.enter([child], event, entered)
+    }
+    return entered
+  }
+
+  private activate(node: StateNode<C, E>, value: StateValue | undefined) {
+    this.active.add(node)
+    if (!node.children.length) return
+
+    if (node.config.type === 'parallel') {
+      node.children.forEach((child) =>
+        this.activate(child, (value as Record<string, StateValue>)?.[child.key])
+      )
+      return
+    }
+
+    const key =
+      typeof value === 'string'
+        ? value
+        : value
+          ? Object.keys(value)[0]
+          : (node.config.initial ?? node.children[0].key)
+    const child = node.children.find((c) => c.key === key)
+    if (!child) {
+      throw new Error(
+        `Machine "${this.id}" has no state "${key}" in "${node.path || '(root)'}"`
+      )
+    }
+    this.activate(child, typeof value === 'object' ? value[key] : undefined)
+  }
+
+  private resolve(source: StateNode<C, E>, target: string): StateNode<C, E> {
+    const keys = target.split('.')
+    for (
+      let scope: StateNode<C, E> | undefined = source.parent ?? source;
+      scope;
+      scope = scope.parent
+    ) {
+      let node: StateNode<C, E> | undefined = scope
+      for (const key of keys) {
+        node = node?.children.find((child) => child.key === key)
+      }
+      if (node) return node
+    }
+    throw new Error(
+      `Machine "${this.id}" has no state "${target}" (targeted from "${source.path || '(root)'}")`
+    )
+  }
+
+  private startActivities(node: StateNode<C, E>) {
+    const { after, invoke } = node.config
+    if (!after && !invoke) return
+
+    const stops: (() => void)[] = []
+    const transition = <Ev extends MachineEvent>(
+      config: Transition<C, Ev> | undefined,
+      event: Ev
+    ) => {
+      const picked = this.pick(node, config, event)
+      if (!picked) return
+      this.take(node, picked, event)
+      this.update()
+    }
+
+    Object.entries(after ?? {}).forEach(([ms, config]) => {
+      const delay = Number(ms)
+      // Delayed updates stay in the lane of the transition entering the state
+      stops.push(
+        scheduleTimeout(
+          () => transition(config, { type: 'after', delay }),
+          delay,
+          undefined
+        )
+      )
+    })
+
+    if (invoke) {
+      const controller = new AbortController()
+      invoke.src(this.context, controller.signal).then(
+        (data) => {
+          if (!controller.signal.aborted)
+            transition(invoke.onDone, { type: 'done', data })
+        },
+        (error: unknown) => {
+          if (!controller.signal.aborted)
+            transition(invoke.onError, { type: 'error', error })
+        }
+      )
+      stops.push(() => controller.abort())
+    }
+
+    this.activities.set(node, () => stops.forEach((stop) => stop()))
+  }
+
+  private run(
+    actions: AnyAction<C> | AnyAction<C>[] | undefined,
+    event: MachineEvent
+  ) {
+    if (!actions) return
+    ;(Array.isArray(actions) ? actions : [actions]).forEach((action) => {
+      const fn = (
+        typeof action === 'string' ? this.config.actions?.[action] : action
+      ) as ((context: C, event: MachineEvent) => Partial<C> | void) | undefined
+      if (!fn) {
+        throw new Error(
+          `Machine "${this.id}" has no action "${String(action)}"`
+        )
+      }
+      const changes = fn(this.context, event)
+      if (changes && typeof changes === 'object') {
+        this.context = { ...this.context, ...changes }
+      }
+    })
+  }
+
+  private update() {
+    this.state = this.createState()
+    this.listeners.forEach((listener) => listener(this.state))
+  }
+
+  private createState(): MachineState<C> {
+    const paths = new Set(this.nodes().map((node) => node.path))
+    return {
+      value: this.valueOf(this.root),
+      context: this.context,
+      done: this.root.children.some(
+        (child) => child.config.type === 'final' && this.active.has(child)
+      ),
+      matches: (path) => paths.has(path),
+    }
+  }
+
+  private valueOf(node: StateNode<C, E>): StateValue {
+    if (node.config.type === 'parallel') {
+      return Object.fromEntries(
+        node.children.map((child) => [child.key, this.valueOf(child)])
+      )
+    }
+    const child = node.children.find((c) => this.active.has(c))
+    if (!child) return {}
+    return child.children.length
+      ? { [child.key]: this.valueOf(child) }
+      : child.key
+  }
+}
+
+/**
+ * Create a state machine
+ *
+ * @example
+ * ```tsx
+ * type Event = { type: 'NEXT' } | { type: 'BACK' } | { type: 'PAY'; card: string }
+ *
+ * const checkout = createMachine<{ card?: string }, Event>({
+ *   initial: 'cart',
+ *   context: {},
+ *   states: {
+ *     cart: { on: { NEXT: 'payment' } },
+ *     payment: {
+ *       on: {
+ *         BACK: 'cart',
+ *         PAY: { target: 'processing', actions: (_, e) => ({ card: e.card }) }
+ *       }
+ *     },
+ *     processing: {
+ *       invoke: {
+ *         src: ctx => api.pay(ctx.card),
+ *         onDone: 'done',
+ *         onError: 'payment'
+ *       }
+ *     },
+ *     done: { type: 'final' }
+ *   }
+ * })
+ *
+ * function Checkout() {
+ *   const [state, send] = use(checkout)
+ *   if (state.matches('cart')) return <button onclick={() => send('NEXT')}>Next</button>
+ *   // ...
+ * }
+ * ```
+ */
+export function createMachine<
+  C = undefined,
+  E extends MachineEvent = MachineEvent,
+>(config: MachineConfig<C, E>): Machine<C, E> {
+  return new Machine(config)
+}
+
+function isAncestor<C, E extends MachineEvent>(
+  ancestor: StateNode<C, E>,
+  node: StateNode<C, E>
+): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent === ancestor) return true
+  }
+  return false
+}
@@ -0,0 +1,156 @@
+import { getComponent, hook, type ComponentInstance } from './hook'
+import {
+  getCurrentScope,
+  onScopeDispose,
+  untrack,
+  type EffectScope,
+} from './lifecycle'
+
+type MountCallback = () => void | (() => void)
+
+interface LifecycleEntry<F> {
+  fn: F
+  scope: EffectScope | undefined
+  cleanup?: () => void
+}
+
+interface InstanceLifecycle {
+  mount: LifecycleEntry<MountCallback>[]
+  update: LifecycleEntry<() => void>[]
+}
+
+const lifecycles = new WeakMap<ComponentInstance, InstanceLifecycle>()
+
+// Instances that finished rendering in the pass in progress, children
+// before their parents
+let rendered: [ComponentInstance, boolean][] | null = null
+
+function lifecycleOf(instance: ComponentInstance): InstanceLifecycle {
+  let lifecycle = lifecycles.get(instance)
+  if (!lifecycle) {
+    lifecycle = { mount: [], update: [] }
+    lifecycles.set(instance, lifecycle)
+  }
+  return lifecycle
+}
+
+// Slot of the calling component holding the latest callback
+function register<F>(
+  fn: F,
+  add?: (lifecycle: InstanceLifecycle, entry: LifecycleEntry<F>) => void
+): LifecycleEntry<F> | undefined {
+  const instance = getComponent()
+  if (!instance) return undefined
+  const entry = hook(() => {
+    const created: LifecycleEntry<F> = { fn, scope: getCurrentScope() }
+    add?.(lifecycleOf(instance), created)
+    return created
+  })
+  entry.fn = fn
+  return entry
+}
+
+/**
+ * Run fn once the component's nodes are in the document. Children mount
+ * before their parents. A returned function runs when the component is
+ * removed.
+ *
+ * @example
+ * ```tsx
+ * function Chart() {
+ *   const ref = useRef<HTMLCanvasElement>(null)
+ *   onMount(() => {
+ *     const chart = drawChart(ref.current!)
+ *     return () => chart.destroy()
+ *   })
+ *   return <canvas ref={ref} />
+ * }
+ * ```
+ */
+export function onMount(fn: MountCallback): void {
+  register(fn, (lifecycle, entry) => {
+    lifecycle.mount.push(entry)
+    onScopeDispose(() => entry.cleanup?.())
+  })
+}
+
+/**
+ * Run fn when the component is removed, children before their parents
+ */
+export function onUnmount(fn: () => void): void {
+  register(fn, (_, entry) => {
+    onScopeDispose(() => entry.fn())
+  })
+}
+
+/**
+ * Run fn after every re-render of the component, once its DOM is updated
+ */
+export function onUpdate(fn: () => void): void {
+  register(fn, (lifecycle, entry) => {
+    lifecycle.update.push(entry)
+  })
+}
+
+/**
+ * Note that a component finished rendering; its mount or update callbacks
+ * run when the outermost render pass ends
+ *
+ * @internal
+ */
+export function queueRendered(
+  instance: ComponentInstance,
+  isFirstRender: boolean
+): void {
+  if (!lifecycles.has(instance)) return
+  if (rendered) {
+    rendered.push([instance, isFirstRender])
+  } else {
+    runLifecycle(instance, isFirstRender)
+  }
+}
+
+/**
+ * Run a render pass, then the lifecycle callbacks of the components it
+ * rendered. Nested passes join the outermost one.
+ *
+ * @internal
+ */
+export function collectRendered<T>(fn: () => T): T {
+  if (rendered) return fn()
+  const queue: [ComponentInstance, boolean][] = []
+  rendered = queue
+  let result: T
+  try {
+    result = fn()
+  } finally {
+    rendered = null
+  }
+  queue.forEach(([instance, isFirstRender]) =>
+    runLifecycle(instance, isFirstRender)
+  )
+  return result
+}
+
+function runLifecycle(
+  instance: ComponentInstance,
+  isFirstRender: boolean
+): void {
+  const lifecycle = lifecycles.get(instance)
+  if (!lifecycle) return
+  untrack(() => {
+    if (isFirstRender) {
+      lifecycle.mount.forEach((entry) => {
+        // Removed before the pass ended
+        if (entry.scope && !entry.scope.active) return
+        const cleanup = entry.fn()
+        if (typeof cleanup === 'function') entry.cleanup = cleanup
+      })
+    } else {
+      lifecycle.update.forEach((entry) => {
+        if (entry.scope && !entry.scope.active) return
+        entry.fn()
+      })
+    }
+  })
+}
@@ -0,0 +1,154 @@
+import { reactive } from './reactive'
+import { hook } from './hook'
+import { getCurrentScope, reportError } from './lifecycle'
+import { writeKeyedState } from './use'
+import { invalidate } from './query'
+
+export type MutationStatus = 'idle' | 'loading' | 'success' | 'error'
+
+export interface MutationHelpers {
+  /**
+   * Optimistically write keyed state (`use(value, { key })` or a keyed
+   * resource). Every write is rolled back if the mutation fails.
+   */
+  set: <T>(key: unknown[], value: T | ((prev: T) => T)) => void
+}
+
+export interface MutationOptions<TData, TVariables, TContext> {
+  /** Runs before the mutation; its return value is passed to the other callbacks */
+  onMutate?: (
+    variables: TVariables,
+    helpers: MutationHelpers
+  ) => TContext | Promise<TContext>
+  onSuccess?: (
+    data: TData,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>
+  /** Runs after optimistic writes have been rolled back */
+  onError?: (
+    error: unknown,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>
+  onSettled?: (
+    data: TData | undefined,
+    error: unknown,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => void | Promise<void>
+  /** Key prefixes to invalidate once the mutation settles */
+  invalidates?: unknown[][]
+}
+
+export interface MutationState<TData> {
+  readonly status: MutationStatus
+  readonly error: unknown
+  readonly data: TData | undefined
+}
+
+/**
+ * Run an async write with optimistic updates and automatic rollback
+ *
+ * `mutate` resolves with the result, or `undefined` if the mutation failed;
+ * failures are reported through `state.error` and `onError` instead of
+ * rejecting. Errors thrown by the callbacks go to the component's
+ * ErrorBoundary, or `onUncaughtError`, and don't reject either.
+ *
+ * @example
+ * ```tsx
+ * const [addTodo, { status }] = useMutation(
+ *   (todo: Todo) => api.post('/todos', todo),
+ *   {
+ *     onMutate: (todo, { set }) => {
+ *       set<Todo[]>(['todos'], todos => [...todos, todo])
+ *     },
+ *     invalidates: [['todos']]
+ *   }
+ * )
+ * ```
+ */
+export function useMutation<TData, TVariables = void, TContext = unknown>(
+  fn: (variables: TVariables) => Promise<TData>,
+  options: MutationOptions<TData, TVariables, TContext> = {}
+): [
+  (variables: TVariables) => Promise<TData | undefined>,
+  MutationState<TData>,
+] {
+  const mutation = hook(() => ({
+    state: reactive({
+      status: 'idle' as MutationStatus,
+      error: null as unknown,
+      data: undefined as TData | undefined,
+    }),
+    // Only the latest call updates state
+    latest: 0,
+    // Handles errors thrown by the callbacks
+    scope: getCurrentScope(),
+  }))
+  const { state } = mutation
+
+  const runCallback = async (
+    callback: () => void | Promise<void>
+  ): Promise<void> => {
+    try {
+      await callback()
+    } catch (err) {
+      reportError(err, mutation.scope)
+    }
+  }
+
+  const mutate = async (variables: TVariables): Promise<TData | undefined> => {
+    const id = ++mutation.latest
+    const rollbacks: (() => void)[] = []
+    let context: TContext | undefined
+    let data: TData | undefined
+    let error: unknown = null
+    let failed = false
+
+    state.status = 'loading'
+    state.error = null
+
+    try {
+      context = await options.onMutate?.(variables, {
+        set: (key, value) => {
+          const restore = writeKeyedState(key, value)
+          if (restore) rollbacks.push(restore)
+        },
+      })
+      data = await fn(variables)
+    } catch (err) {
+      error = err
+      failed = true
+    }
+
+    if (failed) {
+      // Undo optimistic writes, newest first
+      for (let i = rollbacks.length - 1; i >= 0; i--) {
+        rollbacks[i]()
+      }
+      if (id === mutation.latest) {
+        state.error = error
+        state.status = 'error'
+      }
+      await runCallback(() => options.onError?.(error, variables, context))
+    } else {
+      if (id === mutation.latest) {
+        state.data = data
+        state.status = 'success'
+      }
+      await runCallback(() =>
+        options.onSuccess?.(data as TData, variables, context)
+      )
+    }
+
+    await runCallback(() =>
+      options.onSettled?.(data, error, variables, context)
+    )
+    options.invalidates?.forEach((prefix) => invalidate(prefix))
+
+    return failed ? undefined : data
+  }
+
+  return [mutate, state]
+}
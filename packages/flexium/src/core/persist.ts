@@ -0,0 +1,290 @@
+import {
+  effectScope,
+  getCurrentScope,
+  reportError,
+  unsafeEffect,
+  untrack,
+} from './lifecycle'
+import { updateSignal } from './devtools'
+import { traverse } from './effect'
+
+/**
+ * Where persisted state is stored. Values are serialized strings; `get` may
+ * be async, and `subscribe` reports writes made elsewhere (e.g. other tabs).
+ */
+export interface StorageAdapter {
+  get: (
+    key: string
+  ) => string | null | undefined | Promise<string | null | undefined>
+  set: (key: string, value: string) => void | Promise<void>
+  subscribe?: (
+    key: string,
+    callback: (value: string | null) => void
+  ) => () => void
+}
+
+export type StorageName = 'localStorage' | 'sessionStorage' | 'indexedDB'
+
+export interface PersistOptions<T = unknown> {
+  /** @default 'localStorage' */
+  storage?: StorageName | StorageAdapter
+  /** Storage key, defaults to the serialized state key */
+  storageKey?: string
+  /**
+   * Version of the stored shape. Values stored under an older version go
+   * through `migrate`, or are dropped if there is none.
+   * @default 0
+   */
+  version?: number
+  migrate?(persisted: unknown, version: number): T
+  /** @default JSON */
+  serializer?: {
+    stringify: (value: unknown) => string
+    parse: (raw: string) => unknown
+  }
+  /** Keep the value in sync across tabs through a BroadcastChannel */
+  sync?: boolean
+}
+
+interface PersistedRecord {
+  version: number
+  value: unknown
+}
+
+interface Signal {
+  value: unknown
+}
+
+/**
+ * Load a keyed signal from storage and write every change back
+ *
+ * Synchronous storages are read before the first render; async ones (like
+ * IndexedDB) fill the state in once loaded unless it was written meanwhile.
+ */
+export function persistState(
+  container: Signal,
+  stateKey: string,
+  persist: StorageName | StorageAdapter | PersistOptions | true
+): void {
+  const save = connectStorage(stateKey, persist, (value) => {
+    container.value = value
+    updateSignal(container, value)
+  })
+  if (!save) return
+
+  // Keyed state lives as long as the registry, not the component creating it
+  effectScope(true).run(() => {
+    let first = true
+    unsafeEffect(() => {
+      // Depend on nested properties too, so in-place edits are saved
+      const value = traverse(container.value)
+      if (first) {
+        first = false
+        return
+      }
+      untrack(() => save(value))
+    })
+  })
+}
+
+/**
+ * Read a value from storage and keep it in sync with other tabs
+ *
+ * @param apply Called with the stored value and with writes made elsewhere
+ * @returns Function saving a new value, or undefined without storage
+ * @internal
+ */
+export function connectStorage(
+  defaultKey: string,
+  persist: StorageName | StorageAdapter | PersistOptions | true,
+  apply: (value: unknown) => void
+): ((value: unknown) => void) | undefined {
+  const options: PersistOptions =
+    persist === true
+      ? {}
+      : typeof persist === 'string' || isAdapter(persist)
+        ? { storage: persist }
+        : persist
+
+  const adapter = resolveAdapter(options.storage ?? 'localStorage')
+  if (!adapter) return undefined
+
+  const name = options.storageKey ?? defaultKey
+  const version = options.version ?? 0
+  const serializer = options.serializer ?? JSON
+  // Failed writes of async adapters go where errors of the owner go
+  const scope = getCurrentScope()
+  let lastRaw: string | null | undefined
+  let written = false
+
+  const write = (raw: string) => {
+    try {
+      const result = adapter.set(name, raw)
+      if (result instanceof Promise) {
+        result.catch((error: unknown) => reportError(error, scope))
+      }
+    } catch (error) {
+      reportError(error, scope)
+    }
+  }
+
+  const load = (raw: string | null | undefined) => {
+    if (raw === null || raw === undefined || raw === lastRaw) return
+    const record = parseRecord(raw, serializer)
+    if (!record) return
+
+    let value = record.value
+    if (record.version !== version) {
+      if (!options.migrate || record.version > version) return
+      try {
+        value = options.migrate(value, record.version)
+      } catch (error) {
+        // Keep the initial value rather than failing the component
+        console.warn(
+          `[Flexium] Failed to migrate persisted state "${name}":`,
+          error
+        )
+        return
+      }
+    }
+
+    // Remember what storage holds so applying it isn't written back
+    lastRaw = serializer.stringify({ version, value })
+    // Store migrated values under the new version so they migrate once
+    if (record.version !== version) write(lastRaw)
+    apply(value)
+  }
+
+  const stored = adapter.get(name)
+  if (stored instanceof Promise) {
+    stored.then(
+      (raw) => {
+        if (!written) load(raw)
+      },
+      () => {}
+    )
+  } else {
+    load(stored)
+  }
+
+  const channel =
+    options.sync && typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(`flexium:${name}`)
+      : undefined
+
+  adapter.subscribe?.(name, load)
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<string | null>) => load(event.data)
+  }
+
+  return (value) => {
+    written = true
+    const raw = serializer.stringify({ version, value })
+    if (raw === lastRaw) return
+    lastRaw = raw
+    write(raw)
+    channel?.postMessage(raw)
+  }
+}
+
+/** @internal */
+export function isAdapter(value: unknown): value is StorageAdapter {
+  return typeof (value as StorageAdapter).get === 'function'
+}
+
+function parseRecord(
+  raw: string,
+  serializer: NonNullable<PersistOptions['serializer']>
+): PersistedRecord | undefined {
+  try {
+    const record = serializer.parse(raw) as PersistedRecord
+    return record && typeof record === 'object' && 'value' in record
+      ? record
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function resolveAdapter(
+  storage: StorageName | StorageAdapter
+): StorageAdapter | undefined {
+  if (typeof storage !== 'string') return storage
+  if (typeof window === 'undefined') return undefined
+  if (storage === 'indexedDB') return indexedDBAdapter()
+  try {
+    return webStorageAdapter(window[storage])
+  } catch {
+    // Access throws when storage is disabled
+    return undefined
+  }
+}
+
+function webStorageAdapter(storage: Storage): StorageAdapter {
+  return {
+    get: (key) => storage.getItem(key),
+    set: (key, value) => {
+      try {
+        storage.setItem(key, value)
+      } catch {
+        // Quota exceeded or storage disabled: keep the in-memory value
+      }
+    },
+    // The storage event fires in every other tab sharing this storage
+    subscribe: (key, callback) => {
+      const listener = (event: StorageEvent) => {
+        if (event.storageArea === storage && event.key === key) {
+          callback(event.newValue)
+        }
+      }
+      window.addEventListener('storage', listener)
+      return () => window.removeEventListener('storage', listener)
+    },
+  }
+}
+
+const DB_NAME = 'flexium'
+const STORE_NAME = 'state'
+let database: Promise<IDBDatabase> | undefined
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+  return database
+}
+
+function indexedDBAdapter(): StorageAdapter | undefined {
+  if (typeof indexedDB === 'undefined') return undefined
+
+  const run = <R>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<R>
+  ) =>
+    openDatabase().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const request = fn(
+            db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+          )
+          request.onsuccess = () => resolve(request.result)
+          request.onerror = () => reject(request.error)
+        })
+    )
+
+  return {
+    get: (key) =>
+      run(
+        'readonly',
+        (store) => store.get(key) as IDBRequest<string | undefined>
+      ),
+    set: (key, value) =>
+      run('readwrite', (store) => store.put(value, key)).then(() => {}),
+  }
+}
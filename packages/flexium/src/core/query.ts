@@ -0,0 +1,363 @@
+import { reactive } from './reactive'
+import { onScopeDispose, unsafeEffect, untrack } from './lifecycle'
+
+export interface QueryOptions {
+  /**
+   * How long (ms) a successful result counts as fresh. Fresh results are
+   * reused on mount, focus and reconnect instead of being refetched.
+   * @default 0
+   */
+  staleTime?: number
+  /**
+   * How long (ms) a keyed result stays cached after its last user unmounts
+   * @default 300000
+   */
+  cacheTime?: number
+  /**
+   * Retries after a failed request (`true` means 3)
+   * @default 0
+   */
+  retry?: number | boolean
+  /**
+   * Delay (ms) before retry number `attempt` (starting at 0)
+   * @default exponential backoff from 1s, capped at 30s
+   */
+  retryDelay?: number | ((attempt: number, error: unknown) => number)
+  /** Refetch stale results when the window regains focus (default true) */
+  refetchOnWindowFocus?: boolean
+  /** Refetch stale results when the network comes back (default true) */
+  refetchOnReconnect?: boolean
+  /** Poll every `refetchInterval` ms while the query is in use */
+  refetchInterval?: number
+}
+
+type QueryStatus = 'idle' | 'loading' | 'success' | 'error'
+
+/**
+ * Where a query gets its results from:
+ * - read: the current result, tracked so dependency changes start a new request
+ * - rerun: evaluate the fetcher again, optionally with new params
+ * - syncError: error thrown synchronously by the last evaluation
+ */
+export interface QuerySource<P> {
+  read: () => unknown
+  rerun: (...params: [P?]) => unknown
+  syncError: () => unknown
+}
+
+const DEFAULT_CACHE_TIME = 5 * 60 * 1000
+
+const defaultRetryDelay = (attempt: number) =>
+  Math.min(1000 * 2 ** attempt, 30000)
+
+// Any query; its params are only ever passed in by its owner
+type AnyQuery = Query<unknown, never>
+
+// Keyed queries, for invalidate()
+const queryCache = new Map<string, AnyQuery>()
+// Queries with at least one observer, for focus/reconnect refetching
+const activeQueries = new Set<AnyQuery>()
+let windowListenersAttached = false
+
+/**
+ * Async state behind `use(asyncFn)`: tracks the in-flight request, dedupes
+ * refetches, retries failures and expires unused keyed results.
+ */
+export class Query<T, P = void> {
+  readonly type = 'resource'
+  private readonly state = reactive({
+    value: undefined as T | undefined,
+    error: null as unknown,
+    status: 'idle' as QueryStatus,
+    loading: false,
+    isFetching: false,
+    updatedAt: 0,
+    invalidated: false,
+  })
+
+  private current: unknown
+  private pending: Promise<void> | undefined
+  private observers = 0
+  private pollTimer: ReturnType<typeof setInterval> | undefined
+  private gcTimer: ReturnType<typeof setTimeout> | undefined
+  private retryTimer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(
+    private readonly source: QuerySource<P>,
+    private readonly options: QueryOptions = {},
+    private readonly key?: {
+      value: unknown[]
+      serialized: string
+      remove: () => void
+    }
+  ) {
+    if (key) {
+      queryCache.set(key.serialized, this)
+    }
+    onScopeDispose(() => this.dispose())
+  }
+
+  get value() {
+    return this.state.value
+  }
+  get error() {
+    return this.state.error
+  }
+  get status() {
+    return this.state.status
+  }
+  get loading() {
+    return this.state.loading
+  }
+  get isFetching() {
+    return this.state.isFetching
+  }
+
+  get isStale(): boolean {
+    const { updatedAt, invalidated } = this.state
+    return (
+      invalidated ||
+      !updatedAt ||
+      Date.now() - updatedAt >= (this.options.staleTime ?? 0)
+    )
+  }
+
+  /** The request in flight, if any */
+  get promise(): Promise<void> | undefined {
+    return this.pending
+  }
+
+  /**
+   * Settle the first result and every result produced when a dependency changes
+   */
+  start(initial: unknown): void {
+    // settle() never rejects: failures end up in the error state
+    void this.settle(initial)
+    unsafeEffect(() => {
+      void this.settle(this.source.read())
+    })
+  }
+
+  /**
+   * Request again. Without params an in-flight request is reused instead.
+   */
+  fetch(...params: [P?]): Promise<void> {
+    if (params.length === 0 && this.pending) {
+      return this.pending
+    }
+    return this.settle(this.source.rerun(...params))
+  }
+
+  /**
+   * Replace the cached result, e.g. with an optimistic update
+   */
+  setData(value: T): void {
+    this.state.value = value
+  }
+
+  /**
+   * Mark the result stale and refetch it if anything is using it
+   */
+  invalidate(): void {
+    this.state.invalidated = true
+    if (this.observers > 0) {
+      void this.fetch()
+    }
+  }
+
+  observe(): void {
+    this.observers++
+    activeQueries.add(this)
+    attachWindowListeners()
+
+    if (this.gcTimer) {
+      clearTimeout(this.gcTimer)
+      this.gcTimer = undefined
+    }
+
+    const { refetchInterval } = this.options
+    if (refetchInterval && !this.pollTimer) {
+      this.pollTimer = setInterval(() => {
+        void this.fetch()
+      }, refetchInterval)
+    }
+
+    // Another user mounting a stale result revalidates it in the background
+    if (this.observers > 1 && untrack(() => this.isStale)) {
+      void this.fetch()
+    }
+  }
+
+  unobserve(): void {
+    if (this.observers === 0) return
+    this.observers--
+    if (this.observers > 0) return
+
+    activeQueries.delete(this)
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer)
+      this.pollTimer = undefined
+    }
+
+    const cacheTime = this.options.cacheTime ?? DEFAULT_CACHE_TIME
+    if (this.key && Number.isFinite(cacheTime)) {
+      const { remove } = this.key
+      this.gcTimer = setTimeout(remove, cacheTime)
+    }
+  }
+
+  dispose(): void {
+    this.current = undefined
+    this.observers = 0
+    activeQueries.delete(this)
+    if (this.key && queryCache.get(this.key.serialized) === this) {
+      queryCache.delete(this.key.serialized)
+    }
+    clearInterval(this.pollTimer)
+    clearTimeout(this.gcTimer)
+    clearTimeout(this.retryTimer)
+    this.pollTimer = this.gcTimer = this.retryTimer = undefined
+  }
+
+  /** @internal */
+  matches(prefix: unknown[]): boolean {
+    const key = this.key
+    if (!key || key.value.length < prefix.length) return false
+    return prefix.every(
+      (part, i) => JSON.stringify(part) === JSON.stringify(key.value[i])
+    )
+  }
+
+  /** @internal */
+  refetchIfStale(option: 'refetchOnWindowFocus' | 'refetchOnReconnect'): void {
+    if (this.options[option] !== false && untrack(() => this.isStale)) {
+      void this.fetch()
+    }
+  }
+
+  private settle(result: unknown, attempt = 0): Promise<void> {
+    if (result === this.current) {
+      return this.pending ?? Promise.resolve()
+    }
+    this.current = result
+    const state = this.state
+
+    if (!(result instanceof Promise)) {
+      const error = this.source.syncError()
+      if (error) {
+        state.error = error
+        state.status = 'error'
+      } else {
+        state.value = result as T
+        state.error = null
+        state.status = 'success'
+        state.updatedAt = Date.now()
+        state.invalidated = false
+      }
+      state.loading = false
+      state.isFetching = false
+      this.pending = undefined
+      return Promise.resolve()
+    }
+
+    state.isFetching = true
+    // Keep showing the previous result while revalidating
+    if (!untrack(() => state.updatedAt)) {
+      state.loading = true
+      state.status = 'loading'
+    }
+
+    this.pending = result.then(
+      (data: T) => {
+        if (this.current !== result) return
+        this.pending = undefined
+        state.value = data
+        state.error = null
+        state.status = 'success'
+        state.loading = false
+        state.isFetching = false
+        state.updatedAt = Date.now()
+        state.invalidated = false
+      },
+      (err: unknown) => {
+        if (this.current !== result) return
+
+        if (attempt >= retryCount(this.options.retry)) {
+          this.pending = undefined
+          state.error = err
+          state.status = 'error'
+          state.loading = false
+          state.isFetching = false
+          return
+        }
+
+        return new Promise<void>((resolve) => {
+          this.retryTimer = setTimeout(
+            () => {
+              this.retryTimer = undefined
+              if (this.current !== result) return resolve()
+              resolve(this.settle(this.source.rerun(), attempt + 1))
+            },
+            retryDelay(this.options.retryDelay, attempt, err)
+          )
+        })
+      }
+    )
+
+    return this.pending
+  }
+}
+
+/**
+ * Mark every keyed query whose key starts with `keyPrefix` as stale and
+ * refetch the ones currently in use
+ *
+ * @example
+ * ```tsx
+ * const [todos] = use(fetchTodos, { key: ['todos', listId] })
+ *
+ * await saveTodo(todo)
+ * invalidate(['todos']) // every todo list refetches
+ * ```
+ */
+export function invalidate(keyPrefix: unknown[]): void {
+  for (const query of [...queryCache.values()]) {
+    if (query.matches(keyPrefix)) {
+      query.invalidate()
+    }
+  }
+}
+
+function retryCount(retry: QueryOptions['retry']): number {
+  if (retry === true) return 3
+  return retry || 0
+}
+
+function retryDelay(
+  delay: QueryOptions['retryDelay'],
+  attempt: number,
+  error: unknown
+): number {
+  if (typeof delay === 'function') return delay(attempt, error)
+  return delay ?? defaultRetryDelay(attempt)
+}
+
+function attachWindowListeners() {
+  if (windowListenersAttached || typeof window === 'undefined') return
+  windowListenersAttached = true
+
+  const refetch = (option: 'refetchOnWindowFocus' | 'refetchOnReconnect') => {
+    for (const query of [...activeQueries]) {
+      query.refetchIfStale(option)
+    }
+  }
+
+  window.addEventListener('focus', () => refetch('refetchOnWindowFocus'))
+  window.addEventListener('online', () => refetch('refetchOnReconnect'))
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible')
+        refetch('refetchOnWindowFocus')
+    })
+  }
+}
@@ -1,84 +1,467 @@
-import { activeEffect, trackEffect, triggerEffects } from './lifecycle'
+import {
+  activeEffect,
+  trackEffect,
+  triggerEffects,
+  registerDep,
+  type ReactiveEffect,
+} from './lifecycle'
 
 export const REACTIVE_SIGNAL = Symbol('flexium.reactive')
+const RAW = Symbol('flexium.raw')
 
-type Dep = Set<any>
-type KeyToDepMap = Map<any, Dep>
-const targetMap = new WeakMap<any, KeyToDepMap>()
+// Pseudo keys for structural changes (add/delete/clear) and Map key iteration
+export const ITERATE_KEY = Symbol('flexium.iterate')
+export const MAP_KEY_ITERATE_KEY = Symbol('flexium.mapKeyIterate')
+
+export type TriggerType = 'set' | 'add' | 'delete' | 'clear'
+
+type Dep = Set<ReactiveEffect>
+type KeyToDepMap = Map<unknown, Dep>
+const targetMap = new WeakMap<object, KeyToDepMap>()
 
 // WeakMap to store existing proxies to avoid duplicates
-const reactiveMap = new WeakMap<object, any>()
+const reactiveMap = new WeakMap<object, object>()
+
+// What proxies answer for the marker symbols
+interface Marked {
+  [REACTIVE_SIGNAL]?: boolean
+  [RAW]?: unknown
+}
+
+// Any function, for method tables whose entries have their own `this`
+type Method = (this: never, ...args: never[]) => unknown
+
+// Tracking is paused while array mutators read their own length
+let shouldTrack = true
+
+const enum TargetType {
+  INVALID,
+  COMMON,
+  COLLECTION,
+}
+
+function getTargetType(value: object): TargetType {
+  if (!Object.isExtensible(value)) return TargetType.INVALID
+
+  switch (Object.prototype.toString.call(value).slice(8, -1)) {
+    case 'Object':
+    case 'Array':
+      return TargetType.COMMON
+    case 'Map':
+    case 'Set':
+    case 'WeakMap':
+    case 'WeakSet':
+      return TargetType.COLLECTION
+    default:
+      return TargetType.INVALID
+  }
+}
 
 export function reactive<T extends object>(target: T): T {
-    if (target && (target as any)[REACTIVE_SIGNAL]) {
-        return target
+  if (target && (target as Marked)[REACTIVE_SIGNAL]) {
+    return target
+  }
+
+  const existingProxy = reactiveMap.get(target) as T | undefined
+  if (existingProxy) {
+    return existingProxy
+  }
+
+  const targetType = getTargetType(target)
+  if (targetType === TargetType.INVALID) {
+    // Dates, DOM nodes, promises, frozen objects... are stored as-is
+    return target
+  }
+
+  const proxy = new Proxy(
+    target,
+    (targetType === TargetType.COLLECTION
+      ? collectionHandlers
+      : baseHandlers) as ProxyHandler<T>
+  )
+
+  reactiveMap.set(target, proxy)
+  return proxy
+}
+
+/**
+ * Returns the raw object behind a reactive proxy (or the value itself)
+ */
+export function toRaw<T>(observed: T): T {
+  const raw = observed && ((observed as Marked)[RAW] as T | undefined)
+  return raw ? toRaw(raw) : observed
+}
+
+function toReactive<T>(value: T): T {
+  return value !== null && typeof value === 'object' ? reactive(value) : value
+}
+
+// ---------------------------------------------------------------------------
+// Plain objects and arrays
+// ---------------------------------------------------------------------------
+
+const arrayInstrumentations = createArrayInstrumentations()
+
+function createArrayInstrumentations() {
+  const instrumentations: Record<string, Method> = {}
+
+  // Identity-sensitive searches: look through raw values so both raw and
+  // proxied arguments are found, and depend on every index
+  ;(['includes', 'indexOf', 'lastIndexOf'] as const).forEach((key) => {
+    instrumentations[key] = function (this: unknown[], ...args: unknown[]) {
+      const arr = toRaw(this)
+      const search = Array.prototype[key] as (...args: unknown[]) => unknown
+      for (let i = 0, l = this.length; i < l; i++) {
+        track(arr, i + '')
+      }
+      const res = search.apply(arr, args)
+      if (res === -1 || res === false) {
+        return search.apply(arr, args.map(toRaw))
+      }
+      return res
     }
+  })
 
-    const existingProxy = reactiveMap.get(target)
-    if (existingProxy) {
-        return existingProxy
+  // Length-mutating methods read length internally; tracking it would make
+  // two effects pushing to the same array trigger each other forever
+  ;(['push', 'pop', 'shift', 'unshift', 'splice'] as const).forEach((key) => {
+    instrumentations[key] = function (this: unknown[], ...args: unknown[]) {
+      const prev = shouldTrack
+      shouldTrack = false
+      try {
+        const mutate = Array.prototype[key] as (...args: unknown[]) => unknown
+        return mutate.apply(this, args)
+      } finally {
+        shouldTrack = prev
+      }
     }
+  })
 
-    const proxy = new Proxy(target, {
-        get(target, key, receiver) {
-            if (key === REACTIVE_SIGNAL) return true
+  return instrumentations
+}
 
-            const res = Reflect.get(target, key, receiver)
+function isIntegerKey(key: unknown): boolean {
+  return (
+    typeof key === 'string' &&
+    key !== 'NaN' &&
+    key[0] !== '-' &&
+    '' + parseInt(key, 10) === key
+  )
+}
 
-            track(target, key)
+const hasOwn = (target: object, key: PropertyKey) =>
+  Object.prototype.hasOwnProperty.call(target, key)
 
-            if (res !== null && typeof res === 'object') {
-                return reactive(res)
-            }
+type Target = Record<PropertyKey, unknown>
 
-            return res
-        },
-        set(target, key, value, receiver) {
-            const oldValue = (target as any)[key]
-            const result = Reflect.set(target, key, value, receiver)
+const isArray = Array.isArray as (value: unknown) => value is unknown[]
 
-            if (result && hasChanged(value, oldValue)) {
-                trigger(target, key)
-            }
+const baseHandlers: ProxyHandler<Target> = {
+  get(target, key, receiver) {
+    if (key === REACTIVE_SIGNAL) return true
+    if (key === RAW) return target
 
-            return result
-        }
+    const targetIsArray = isArray(target)
+    if (targetIsArray && hasOwn(arrayInstrumentations, key)) {
+      return Reflect.get(arrayInstrumentations, key, receiver) as unknown
+    }
+
+    const res: unknown = Reflect.get(target, key, receiver)
+
+    if (typeof key === 'symbol') {
+      // Built-in symbols (Symbol.iterator etc.) are not state
+      return res
+    }
+
+    track(target, key)
+
+    return toReactive(res)
+  },
+  set(target, key, value, receiver) {
+    const oldValue = target[key]
+    const hadKey =
+      isArray(target) && isIntegerKey(key)
+        ? Number(key) < target.length
+        : hasOwn(target, key)
+    const result = Reflect.set(target, key, value, receiver)
+
+    // Ignore sets that went up the prototype chain to another proxy
+    if (target === toRaw(receiver)) {
+      if (!hadKey) {
+        trigger(target, 'add', key, value)
+      } else if (hasChanged(value, oldValue)) {
+        trigger(target, 'set', key, value, oldValue)
+      }
+    }
+
+    return result
+  },
+  deleteProperty(target, key) {
+    const hadKey = hasOwn(target, key)
+    const oldValue = target[key]
+    const result = Reflect.deleteProperty(target, key)
+    if (result && hadKey) {
+      trigger(target, 'delete', key, undefined, oldValue)
+    }
+    return result
+  },
+  has(target, key) {
+    const result = Reflect.has(target, key)
+    if (typeof key !== 'symbol') {
+      track(target, key)
+    }
+    return result
+  },
+  ownKeys(target) {
+    track(target, isArray(target) ? 'length' : ITERATE_KEY)
+    return Reflect.ownKeys(target)
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Map / Set / WeakMap / WeakSet
+// ---------------------------------------------------------------------------
+
+type CollectionTarget =
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | WeakMap<object, unknown>
+  | WeakSet<object>
+type IterableCollection = Map<unknown, unknown> | Set<unknown>
+
+const collectionInstrumentations: Record<PropertyKey, Method> = {
+  get(this: Map<unknown, unknown>, key: unknown) {
+    const target = toRaw(this)
+    const rawKey = toRaw(key)
+    track(target, key)
+    if (key !== rawKey) track(target, rawKey)
+    if (target.has(key)) return toReactive(target.get(key))
+    if (target.has(rawKey)) return toReactive(target.get(rawKey))
+    return undefined
+  },
+  has(this: IterableCollection, key: unknown) {
+    const target = toRaw(this)
+    const rawKey = toRaw(key)
+    track(target, key)
+    if (key !== rawKey) track(target, rawKey)
+    return key === rawKey
+      ? target.has(key)
+      : target.has(key) || target.has(rawKey)
+  },
+  add(this: Set<unknown>, value: unknown) {
+    const target = toRaw(this)
+    const rawValue = toRaw(value)
+    if (!target.has(rawValue)) {
+      target.add(rawValue)
+      trigger(target, 'add', rawValue, rawValue)
+    }
+    return this
+  },
+  set(this: Map<unknown, unknown>, key: unknown, value: unknown) {
+    const target = toRaw(this)
+    const rawValue = toRaw(value)
+    let rawKey = key
+    let hadKey = target.has(rawKey)
+    if (!hadKey) {
+      rawKey = toRaw(key)
+      hadKey = target.has(rawKey)
+    }
+    const oldValue = target.get(rawKey)
+    target.set(rawKey, rawValue)
+    if (!hadKey) {
+      trigger(target, 'add', rawKey, rawValue)
+    } else if (hasChanged(rawValue, oldValue)) {
+      trigger(target, 'set', rawKey, rawValue, oldValue)
+    }
+    return this
+  },
+  delete(this: IterableCollection, key: unknown) {
+    const target = toRaw(this)
+    let rawKey = key
+    let hadKey = target.has(rawKey)
+    if (!hadKey) {
+      rawKey = toRaw(key)
+      hadKey = target.has(rawKey)
+    }
+    const result = target.delete(rawKey)
+    if (hadKey) {
+      trigger(target, 'delete', rawKey)
+    }
+    return result
+  },
+  clear(this: IterableCollection) {
+    const target = toRaw(this)
+    const hadItems = target.size !== 0
+    target.clear()
+    if (hadItems) {
+      trigger(target, 'clear', undefined)
+    }
+  },
+  forEach(
+    this: IterableCollection,
+    callback: (value: unknown, key: unknown, collection: unknown) => void,
+    thisArg?: unknown
+  ) {
+    const target = toRaw(this)
+    track(target, ITERATE_KEY)
+    target.forEach((value: unknown, key: unknown) => {
+      callback.call(thisArg, toReactive(value), toReactive(key), this)
     })
+  },
+  keys: createIterableMethod('keys'),
+  values: createIterableMethod('values'),
+  entries: createIterableMethod('entries'),
+  [Symbol.iterator]: createIterableMethod(Symbol.iterator),
+}
+
+function createIterableMethod(
+  method: 'keys' | 'values' | 'entries' | typeof Symbol.iterator
+) {
+  return function (this: IterableCollection): IterableIterator<unknown> {
+    const target = toRaw(this)
+    const targetIsMap = target instanceof Map
+    const isPair =
+      method === 'entries' || (method === Symbol.iterator && targetIsMap)
+    const isKeyOnly = method === 'keys' && targetIsMap
+    const inner: Iterator<unknown, unknown> = target[method]()
+
+    // Map.keys() does not care about value changes
+    track(target, isKeyOnly ? MAP_KEY_ITERATE_KEY : ITERATE_KEY)
+
+    return {
+      next() {
+        const { value, done } = inner.next()
+        if (done) return { value, done }
+        return {
+          value: isPair
+            ? [
+                toReactive((value as [unknown, unknown])[0]),
+                toReactive((value as [unknown, unknown])[1]),
+              ]
+            : toReactive(value),
+          done,
+        }
+      },
+      [Symbol.iterator]() {
+        return this
+      },
+    }
+  }
+}
 
-    reactiveMap.set(target, proxy)
-    return proxy
+const collectionHandlers: ProxyHandler<CollectionTarget> = {
+  get(target, key, receiver) {
+    if (key === REACTIVE_SIGNAL) return true
+    if (key === RAW) return target
+
+    if (key === 'size') {
+      track(target, ITERATE_KEY)
+      return Reflect.get(target, key, target) as unknown
+    }
+
+    if (hasOwn(collectionInstrumentations, key) && key in target) {
+      return Reflect.get(collectionInstrumentations, key, receiver) as unknown
+    }
+
+    return Reflect.get(target, key, target) as unknown
+  },
 }
 
+// ---------------------------------------------------------------------------
+// Dependency tracking
+// ---------------------------------------------------------------------------
+
 export function track(target: object, key: unknown) {
-    if (!activeEffect) return
+    if (!activeEffect || !shouldTrack) return
 
     let depsMap = targetMap.get(target)
     if (!depsMap) {
-        targetMap.set(target, (depsMap = new Map()))
+        targetMap.set(target, (depsMap = new Map<unknown, Dep>()))
     }
 
     let dep = depsMap.get(key)
     if (!dep) {
         depsMap.set(key, (dep = new Set()))
+        registerDep(dep, target, key)
     }
 
     trackEffect(dep)
 }
 
-export function trigger(target: object, key: unknown) {
-    const depsMap = targetMap.get(target)
-    if (!depsMap) return
+export function trigger(
+  target: object,
+  type: TriggerType,
+  key: unknown,
+  newValue?: unknown,
+  oldValue?: unknown
+) {
+  const depsMap = targetMap.get(target)
+  if (!depsMap) return
 
-    const dep = depsMap.get(key)
-    if (dep) {
-        triggerEffects(dep)
+  const deps: (Dep | undefined)[] = []
+  const targetIsArray = isArray(target)
+  const targetIsMap = target instanceof Map
+
+  if (type === 'clear') {
+    // Every key of the collection is gone
+    depsMap.forEach((dep) => deps.push(dep))
+  } else if (targetIsArray && key === 'length') {
+    // Shrinking an array removes every index past the new length
+    const newLength = Number(newValue)
+    depsMap.forEach((dep, depKey) => {
+      if (
+        depKey === 'length' ||
+        (typeof depKey !== 'symbol' && Number(depKey) >= newLength)
+      ) {
+        deps.push(dep)
+      }
+    })
+  } else {
+    if (key !== undefined) {
+      deps.push(depsMap.get(key))
+    }
+
+    switch (type) {
+      case 'add':
+        if (!targetIsArray) {
+          deps.push(depsMap.get(ITERATE_KEY))
+          if (targetIsMap) deps.push(depsMap.get(MAP_KEY_ITERATE_KEY))
+        } else if (isIntegerKey(key)) {
+          deps.push(depsMap.get('length'))
+        }
+        break
+      case 'delete':
+        if (!targetIsArray) {
+          deps.push(depsMap.get(ITERATE_KEY))
+          if (targetIsMap) deps.push(depsMap.get(MAP_KEY_ITERATE_KEY))
+        }
+        break
+      case 'set':
+        if (targetIsMap) {
+          deps.push(depsMap.get(ITERATE_KEY))
+        }
+        break
     }
+  }
+
+  const effects = new Set<ReactiveEffect>()
+  for (const dep of deps) {
+    if (dep) dep.forEach((effect) => effects.add(effect))
+  }
+  if (effects.size) {
+    triggerEffects(
+      effects,
+      process.env.NODE_ENV !== 'production'
+        ? { target, type, key, oldValue, newValue }
+        : undefined
+    )
+  }
 }
 
-function hasChanged(value: any, oldValue: any): boolean {
+function hasChanged(value: unknown, oldValue: unknown): boolean {
     return !Object.is(value, oldValue)
 }
 
 export function isReactive(value: unknown): boolean {
-    return !!(value && (value as any)[REACTIVE_SIGNAL])
+    return !!(value && (value as Marked)[REACTIVE_SIGNAL])
 }
@@ -0,0 +1,413 @@
+import { Useable } from './useable'
+import { getCurrentScope, reportError, type EffectScope } from './lifecycle'
+
+/**
+ * Minimal Observable shape, as implemented by RxJS and other libraries
+ * following the TC39 proposal
+ */
+export interface ObservableLike<T> {
+  subscribe(observer: {
+    next: (value: T) => void
+    error?: (error: unknown) => void
+    complete?: () => void
+  }): { unsubscribe(): void } | (() => void)
+}
+
+/** Data of a WebSocket message, depending on the socket's `binaryType` */
+export type SocketData = string | ArrayBuffer | Blob
+
+export interface WebSocketSourceOptions<T, M = unknown> {
+  /** Value before the first message arrives */
+  initial: T
+  protocols?: string | string[]
+  /** Turn a message into the value, JSON by default */
+  parse?: (data: SocketData) => T
+  /** Turn a sent message into data, JSON by default */
+  serialize?: (message: M) => string | ArrayBufferLike | Blob | ArrayBufferView
+  /**
+   * Reconnect after the connection drops, with exponential backoff
+   * @default true
+   */
+  reconnect?:
+    | boolean
+    | {
+        /** @default Infinity */
+        retries?: number
+        /** Delay before the first retry in ms, doubled on every retry @default 1000 */
+        delay?: number
+        /** @default 30000 */
+        maxDelay?: number
+      }
+}
+
+type Target = EventTarget | null | undefined
+
+const isBrowser = typeof window !== 'undefined'
+
+/**
+ * A source shared by all its consumers: it connects when the first one
+ * subscribes, disconnects when the last one leaves and remembers the latest
+ * value for consumers mounting later.
+ */
+abstract class SharedSource<T, Actions extends unknown[] = []> extends Useable<
+  T,
+  void,
+  Actions
+> {
+  protected current: T
+  private readonly listeners = new Set<(value: T) => void>()
+  private disconnect: (() => void) | undefined
+  private scope: EffectScope | undefined
+
+  constructor(initial: T) {
+    super()
+    this.current = initial
+  }
+
+  /**
+   * Start listening; emit() reports new values
+   * @returns Function stopping the listener
+   */
+  protected abstract connect(): () => void
+
+  protected emit(value: T): void {
+    if (Object.is(value, this.current)) return
+    this.current = value
+    this.listeners.forEach((listener) => listener(value))
+  }
+
+  /**
+   * Report an error of the connection, like one thrown by an effect of the
+   * consumer that connected it; the latest value stays
+   */
+  protected fail(error: unknown): void {
+    reportError(error, this.scope)
+  }
+
+  getInitial(): T {
+    return this.current
+  }
+
+  subscribe(
+    _params: void | undefined,
+    callback: (value: T) => void
+  ): () => void {
+    // Server renders use the initial value; nothing would unsubscribe
+    if (!isBrowser) return () => {}
+
+    this.listeners.add(callback)
+    if (this.listeners.size === 1) {
+      this.scope = getCurrentScope()
+      this.disconnect = this.connect()
+    }
+
+    return () => {
+      if (!this.listeners.delete(callback) || this.listeners.size > 0) return
+      const disconnect = this.disconnect
+      this.disconnect = undefined
+      this.scope = undefined
+      disconnect?.()
+    }
+  }
+}
+
+class ObservableSource<T> extends SharedSource<T> {
+  constructor(
+    private readonly observable: ObservableLike<T>,
+    initial: T
+  ) {
+    super(initial)
+  }
+
+  protected connect() {
+    const interop: PropertyKey =
+      (Symbol as { observable?: symbol }).observable ?? '@@observable'
+    const source = this.observable as ObservableLike<T> &
+      Partial<Record<PropertyKey, () => ObservableLike<T>>>
+    const toObservable = source[interop]
+    const observable =
+      typeof toObservable === 'function' ? toObservable.call(source) : source
+
+    const subscription = observable.subscribe({
+      next: (value) => this.emit(value),
+      // Errors and completion end the stream; the last value stays
+      error: (error) => this.fail(error),
+    })
+    return typeof subscription === 'function'
+      ? subscription
+      : () => subscription.unsubscribe()
+  }
+}
+
+class EventTargetSource<T, E extends Event> extends SharedSource<T> {
+  constructor(
+    private readonly target: Target | (() => Target),
+    private readonly name: string,
+    private readonly selector: (event: E) => T,
+    initial: T
+  ) {
+    super(initial)
+  }
+
+  protected connect() {
+    const target =
+      typeof this.target === 'function' ? this.target() : this.target
+    if (!target) return () => {}
+
+    const listener = (event: Event) => this.emit(this.selector(event as E))
+    target.addEventListener(this.name, listener)
+    return () => target.removeEventListener(this.name, listener)
+  }
+}
+
+class AsyncIterableSource<T> extends SharedSource<T> {
+  constructor(
+    private readonly iterable: AsyncIterable<T> | (() => AsyncIterable<T>),
+    initial: T
+  ) {
+    super(initial)
+  }
+
+  protected connect() {
+    const iterable =
+      typeof this.iterable === 'function' ? this.iterable() : this.iterable
+    const iterator = iterable[Symbol.asyncIterator]()
+    let stopped = false
+
+    const pull = (): void => {
+      iterator.next().then(
+        (result) => {
+          if (stopped || result.done) return
+          this.emit(result.value)
+          pull()
+        },
+        (error: unknown) => {
+          // The iteration ends; the last value stays
+          if (!stopped) this.fail(error)
+        }
+      )
+    }
+    pull()
+
+    return () => {
+      stopped = true
+      void iterator.return?.()?.catch(() => {})
+    }
+  }
+}
+
+class MediaQuerySource extends SharedSource<boolean> {
+  constructor(
+    private readonly query: string,
+    serverValue: boolean
+  ) {
+    super(
+      isBrowser && window.matchMedia
+        ? window.matchMedia(query).matches
+        : serverValue
+    )
+  }
+
+  protected connect() {
+    if (!window.matchMedia) return () => {}
+
+    const list = window.matchMedia(this.query)
+    // The query may have changed while nobody was listening
+    this.emit(list.matches)
+    const listener = (event: MediaQueryListEvent) => this.emit(event.matches)
+    list.addEventListener('change', listener)
+    return () => list.removeEventListener('change', listener)
+  }
+}
+
+/**
+ * Latest value of an Observable (RxJS or any `Symbol.observable` source)
+ *
+ * @example
+ * ```tsx
+ * const ticks = fromObservable(interval(1000), 0)
+ *
+ * function Clock() {
+ *   const [tick] = use(ticks)
+ *   return <span>{tick}</span>
+ * }
+ * ```
+ */
+export function fromObservable<T>(
+  observable: ObservableLike<T>,
+  initial: T
+): Useable<T> {
+  return new ObservableSource(observable, initial)
+}
+
+/**
+ * Value selected from the latest event dispatched on a target
+ *
+ * Pass the target as a getter to keep module-level sources safe to import
+ * on the server.
+ *
+ * @example
+ * ```tsx
+ * const width = fromEvent(() => window, 'resize', () => window.innerWidth, 1024)
+ *
+ * function Layout() {
+ *   const [w] = use(width)
+ *   return w < 640 ? <Mobile /> : <Desktop />
+ * }
+ * ```
+ */
+export function fromEvent<T, E extends Event = Event>(
+  target: Target | (() => Target),
+  name: string,
+  selector: (event: E) => T,
+  initial: T
+): Useable<T> {
+  return new EventTargetSource(target, name, selector, initial)
+}
+
+/**
+ * Latest value yielded by an async iterable
+ *
+ * Pass a factory to start a fresh iteration every time the source is
+ * subscribed again after all consumers left.
+ *
+ * @example
+ * ```tsx
+ * const prices = fromAsyncIterable(() => priceFeed('AAPL'), 0)
+ * ```
+ */
+export function fromAsyncIterable<T>(
+  iterable: AsyncIterable<T> | (() => AsyncIterable<T>),
+  initial: T
+): Useable<T> {
+  return new AsyncIterableSource(iterable, initial)
+}
+
+/**
+ * Whether a media query matches
+ *
+ * @param serverValue Value used during server rendering
+ *
+ * @example
+ * ```tsx
+ * const prefersDark = fromMediaQuery('(prefers-color-scheme: dark)')
+ *
+ * const [dark] = use(prefersDark)
+ * ```
+ */
+export function fromMediaQuery(
+  query: string,
+  serverValue = false
+): Useable<boolean> {
+  return new MediaQuerySource(query, serverValue)
+}
+
+/**
+ * Latest message of a WebSocket, with a `send` action
+ *
+ * One connection is shared by every consumer. It opens with the first one,
+ * reconnects with backoff when dropped and closes when the last one
+ * unmounts. Messages sent while disconnected are queued; received ones that
+ * fail to parse are reported like effect errors.
+ *
+ * @example
+ * ```tsx
+ * const chat = new WebSocketSource<Message | null, Outgoing>('wss://chat.example.com', {
+ *   initial: null
+ * })
+ *
+ * function Chat() {
+ *   const [last, send] = use(chat)
+ *   return <button onclick={() => send({ text: 'Hi' })}>{last?.text}</button>
+ * }
+ * ```
+ */
+export class WebSocketSource<T, M = unknown> extends SharedSource<
+  T,
+  [(message: M) => void]
+> {
+  private socket: WebSocket | undefined
+  private readonly queue: M[] = []
+
+  constructor(
+    readonly url: string,
+    private readonly options: WebSocketSourceOptions<T, M>
+  ) {
+    super(options.initial)
+  }
+
+  /**
+   * Send a message, or queue it until the connection is open
+   */
+  readonly send = (message: M): void => {
+    if (this.socket?.readyState === 1) {
+      this.socket.send(this.serialize(message))
+    } else {
+      this.queue.push(message)
+    }
+  }
+
+  getActions(): [(message: M) => void] {
+    return [this.send]
+  }
+
+  protected connect() {
+    if (typeof WebSocket === 'undefined') return () => {}
+
+    const reconnect = this.options.reconnect ?? true
+    const {
+      retries = Infinity,
+      delay = 1000,
+      maxDelay = 30000,
+    } = typeof reconnect === 'object' ? reconnect : {}
+    const parse =
+      this.options.parse ??
+      ((data: SocketData) => JSON.parse(String(data)) as T)
+    let attempt = 0
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let closed = false
+
+    const open = () => {
+      const socket = new WebSocket(this.url, this.options.protocols)
+      this.socket = socket
+
+      socket.onopen = () => {
+        attempt = 0
+        this.queue
+          .splice(0)
+          .forEach((message) => socket.send(this.serialize(message)))
+      }
+      socket.onmessage = (event) => {
+        let value: T
+        try {
+          value = parse(event.data as SocketData)
+        } catch (error) {
+          // A malformed message must not take the connection down
+          this.fail(error)
+          return
+        }
+        this.emit(value)
+      }
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = undefined
+        if (closed || !reconnect || attempt >= retries) return
+        timer = setTimeout(open, Math.min(delay * 2 ** attempt, maxDelay))
+        attempt++
+      }
+    }
+    open()
+
+    return () => {
+      closed = true
+      clearTimeout(timer)
+      this.socket?.close()
+      this.socket = undefined
+    }
+  }
+
+  private serialize(message: M) {
+    return this.options.serialize
+      ? this.options.serialize(message)
+      : JSON.stringify(message)
+  }
+}
@@ -0,0 +1,285 @@
+import { reactive, toRaw } from './reactive'
+import { Useable } from './useable'
+import {
+  effectScope,
+  setDebugName,
+  sync,
+  unsafeEffect,
+  untrack,
+} from './lifecycle'
+import { registerSignal, updateSignal } from './devtools'
+import {
+  connectStorage,
+  isAdapter,
+  type PersistOptions,
+  type StorageAdapter,
+  type StorageName,
+} from './persist'
+
+export type StoreActions<S> = Record<
+  string,
+  (state: S, ...args: never[]) => unknown
+>
+
+/** Actions as called from outside: the state argument is bound */
+export type BoundActions<A> = {
+  [K in keyof A]: A[K] extends (state: never, ...args: infer P) => infer R
+    ? (...args: P) => R
+    : never
+}
+
+export interface ActionCall {
+  action: string
+  args: unknown[]
+}
+
+/**
+ * Wraps every action of a store. Set up once per store; the returned
+ * function runs around each call and must call `next()` to continue.
+ */
+export type StoreMiddleware<S extends object = object> = (
+  store: Store<S>
+) => ActionWrapper | void
+
+type ActionWrapper = (call: ActionCall, next: () => unknown) => unknown
+
+export interface StoreOptions<S extends object> {
+  /** Name used by logging, devtools and as the default storage key */
+  name?: string
+  middleware?: StoreMiddleware<S>[]
+}
+
+type Selector<S> = ((state: S) => unknown) | undefined
+
+// Stores created without a name, which can't pick a storage key for them
+const unnamedStores = new WeakSet<object>()
+
+/**
+ * Reactive state with typed actions, read through `use(store)` or
+ * `use(store, selector)`
+ */
+export class Store<
+  S extends object,
+  A extends StoreActions<S> = StoreActions<S>,
+> extends Useable<unknown, Selector<S>, [BoundActions<A>]> {
+  readonly name: string
+  readonly state: S
+  readonly actions: BoundActions<A>
+  private readonly initial: () => S
+  private readonly listeners = new Set<(call: ActionCall, state: S) => void>()
+
+  constructor(
+    initial: S | (() => S),
+    actions: A,
+    options: StoreOptions<S> = {}
+  ) {
+    super()
+    this.name = options.name ?? 'store'
+    if (options.name === undefined) unnamedStores.add(this)
+    this.initial =
+      typeof initial === 'function'
+        ? (initial as () => S)
+        : cloneFactory(initial)
+    this.state = reactive(this.initial())
+    setDebugName(toRaw(this.state), this.name)
+
+    const wrappers = (options.middleware ?? [])
+      .map((middleware) => middleware(this))
+      .filter((wrap): wrap is ActionWrapper => !!wrap)
+
+    const bound = {} as BoundActions<A>
+    Object.keys(actions).forEach((action) => {
+      ;(bound as Record<string, unknown>)[action] = (...args: unknown[]) => {
+        const call: ActionCall = { action, args }
+        // The first middleware runs outermost
+        const run = wrappers.reduceRight<() => unknown>(
+          (next, wrap) => () => wrap(call, next),
+          () =>
+            (actions[action] as (state: S, ...args: unknown[]) => unknown)(
+              this.state,
+              ...args
+            )
+        )
+        const result = run()
+        const notify = () =>
+          this.listeners.forEach((listener) => listener(call, this.state))
+        // Async actions are reported once they settle
+        if (result instanceof Promise) {
+          result.then(notify, notify)
+        } else {
+          notify()
+        }
+        return result
+      }
+    })
+    this.actions = bound
+  }
+
+  /**
+   * Call listener after every action (once it settles, if async) and reset
+   *
+   * @returns Function removing the listener
+   */
+  $subscribe(listener: (call: ActionCall, state: S) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Put the state back to its initial value
+   */
+  $reset(): void {
+    this.$replace(this.initial())
+    const call: ActionCall = { action: '$reset', args: [] }
+    this.listeners.forEach((listener) => listener(call, this.state))
+  }
+
+  /**
+   * Replace the whole state, e.g. with a value loaded from storage
+   * @internal
+   */
+  $replace(next: S): void {
+    const state = this.state as Record<string, unknown>
+    sync(() => {
+      Object.keys(state).forEach((key) => {
+        if (!(key in next)) delete state[key]
+      })
+      Object.assign(state, next)
+    })
+  }
+
+  getInitial(selector?: Selector<S>): unknown {
+    return selector ? untrack(() => selector(this.state)) : this.state
+  }
+
+  /**
+   * Without a selector the state itself is returned and reads are tracked
+   * property by property; with one, only changes to the selected slice
+   * are reported.
+   */
+  subscribe(
+    selector: Selector<S>,
+    callback: (value: unknown) => void
+  ): () => void {
+    if (!selector) return () => {}
+
+    const scope = effectScope(true)
+    let first = true
+    let last: unknown
+    scope.run(() => {
+      const runner = unsafeEffect(
+        () => {
+          const value = selector(this.state)
+          if (!first && Object.is(value, last)) return
+          last = value
+          if (first) {
+            first = false
+          } else {
+            untrack(() => callback(value))
+          }
+        },
+        {
+          // Compare right away so unrelated writes never reach the component
+          scheduler: () => runner(),
+        }
+      )
+    })
+    return () => scope.stop()
+  }
+
+  getActions(): [BoundActions<A>] {
+    return [this.actions]
+  }
+}
+
+/**
+ * Create a global store
+ *
+ * @example
+ * ```tsx
+ * const cart = createStore({ items: [] as Item[], total: 0 }, {
+ *   add(state, item: Item) {
+ *     state.items.push(item)
+ *     state.total += item.price
+ *   }
+ * }, { middleware: [storeLogger()] })
+ *
+ * function CartTotal() {
+ *   // Re-renders only when the total changes
+ *   const [total, { add }] = use(cart, s => s.total)
+ *   return <button onclick={() => add(item)}>{total}</button>
+ * }
+ * ```
+ */
+export function createStore<S extends object, A extends StoreActions<S>>(
+  initial: S | (() => S),
+  actions: A,
+  options?: StoreOptions<S>
+): Store<S, A> {
+  return new Store(initial, actions, options)
+}
+
+/**
+ * Log every action with its arguments and the resulting state, as warnings
+ * unless `log` is given
+ */
+export function storeLogger(
+  log: (...args: unknown[]) => void = console.warn
+): StoreMiddleware {
+  return (store) => (call, next) => {
+    const result = next()
+    log(`[${store.name}] ${call.action}`, call.args, snapshot(store.state))
+    return result
+  }
+}
+
+/**
+ * Report the store to the Flexium DevTools after every action
+ */
+export function storeDevtools(): StoreMiddleware {
+  return (store) => {
+    const container = { type: 'store', value: snapshot(store.state) }
+    registerSignal(container, store.name)
+    store.$subscribe(() => {
+      container.value = snapshot(store.state)
+      updateSignal(container, container.value)
+    })
+  }
+}
+
+/**
+ * Save the state after every action and restore it when the store is
+ * created. Takes the same storages and options as `use(value, { persist })`.
+ *
+ * The state is stored under `store:<name>` unless a `storageKey` is given;
+ * unnamed stores must give one so they don't overwrite each other.
+ */
+export function persistStore(
+  options: StorageName | StorageAdapter | PersistOptions | true = true
+): StoreMiddleware {
+  return (store) => {
+    const storageKey =
+      typeof options === 'object' && !isAdapter(options)
+        ? options.storageKey
+        : undefined
+    if (storageKey === undefined && unnamedStores.has(store)) {
+      throw new Error('persistStore() needs a store name or a storageKey')
+    }
+    const save = connectStorage(`store:${store.name}`, options, (value) => {
+      store.$replace(value as object)
+    })
+    if (!save) return
+    store.$subscribe((_call, state) => save(snapshot(state)))
+  }
+}
+
+function snapshot<S>(state: S): S {
+  return JSON.parse(JSON.stringify(toRaw(state))) as S
+}
+
+function cloneFactory<S>(initial: S): () => S {
+  const raw = toRaw(initial)
+  return typeof structuredClone === 'function'
+    ? () => structuredClone(raw)
+    : () => JSON.parse(JSON.stringify(raw)) as S
+}
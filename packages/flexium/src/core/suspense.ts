@@ -0,0 +1,103 @@
+import { Context, runWithOwner, type ContextOwner } from './context'
+import { effectScope, type EffectScope, type ReactiveEffect } from './lifecycle'
+import type { DerivedContainer } from './use'
+
+export interface SuspenseContextValue {
+  /** Register a pending promise with the suspense boundary */
+  register: (promise: Promise<unknown>) => void
+  /** Whether there's an active suspense boundary */
+  hasBoundary: boolean
+  /** Resources kept alive while the boundary shows its fallback */
+  cache?: SuspenseCache
+}
+
+export interface ErrorBoundaryHandle {
+  handleError: (error: Error, phase: 'render' | 'effect' | 'event') => void
+}
+
+interface ParkedResource {
+  position: unknown[]
+  container: DerivedContainer
+  scope: EffectScope
+}
+
+// Component instance fields a resource position is read from
+interface PositionedInstance {
+  hookIndex: number
+  key?: unknown
+  parentInstance?: PositionedInstance
+}
+
+/**
+ * Where a resource is used: the hook slot of its use() call and the keys
+ * of its component and every ancestor. A component re-created at the same
+ * place gets an equal position.
+ * @internal
+ */
+export function resourcePosition(instance: PositionedInstance): unknown[] {
+  const position: unknown[] = [instance.hookIndex]
+  for (
+    let owner: PositionedInstance | undefined = instance;
+    owner;
+    owner = owner.parentInstance
+  ) {
+    position.push(owner.key)
+  }
+  return position
+}
+
+function samePosition(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((part, i) => part === b[i])
+}
+
+/**
+ * Owner of `use(fn, { suspense: true })` resources below a boundary.
+ *
+ * Showing the fallback unmounts the suspended components. Their pending
+ * resources are parked here and handed back to the components that mount
+ * at the same position once the boundary shows its children again, so the
+ * request isn't started over.
+ */
+export class SuspenseCache {
+  readonly scope = effectScope()
+  private readonly parked: ParkedResource[] = []
+
+  park(resource: ParkedResource): void {
+    this.parked.push(resource)
+  }
+
+  adopt(position: unknown[]): ParkedResource | undefined {
+    const index = this.parked.findIndex((resource) =>
+      samePosition(resource.position, position)
+    )
+    return index === -1 ? undefined : this.parked.splice(index, 1)[0]
+  }
+}
+
+export const SuspenseCtx = new Context<SuspenseContextValue>({
+  register: () => {},
+  hasBoundary: false,
+})
+
+export const ErrorBoundaryCtx = new Context<ErrorBoundaryHandle | null>(null)
+
+/**
+ * Send errors thrown by the effects of a component to the nearest
+ * ErrorBoundary above it. Errors no boundary takes go on to the parent scope.
+ * @internal
+ */
+export function catchEffectErrors(
+  owner: ContextOwner,
+  scope: EffectScope,
+  isRenderEffect: (effect: ReactiveEffect | undefined) => boolean
+): void {
+  scope.onError = (error, effect) => {
+    const boundary = runWithOwner(owner, () => ErrorBoundaryCtx.getInitial())
+    if (!boundary) return false
+    boundary.handleError(
+      error instanceof Error ? error : new Error(String(error)),
+      isRenderEffect(effect) ? 'render' : 'effect'
+    )
+    return true
+  }
+}
@@ -0,0 +1,51 @@
+import { reactive } from './reactive'
+import { hook } from './hook'
+import { onTransitionsSettled, runWithPriority } from './lifecycle'
+
+/**
+ * Mark the updates made by fn as non-urgent
+ *
+ * State changes right away, but the re-renders they cause are deferred and
+ * time-sliced, so typing and other urgent updates stay responsive.
+ *
+ * @returns Promise resolving once the transition's updates have rendered
+ *
+ * @example
+ * ```tsx
+ * const onInput = (e: Event) => {
+ *   setQuery((e.target as HTMLInputElement).value)
+ *   startTransition(() => setFilter((e.target as HTMLInputElement).value))
+ * }
+ * ```
+ */
+export function startTransition(fn: () => void): Promise<void> {
+  runWithPriority('transition', fn)
+  return new Promise((resolve) => onTransitionsSettled(resolve))
+}
+
+/**
+ * startTransition() with a flag that is true until the transition has rendered
+ *
+ * @example
+ * ```tsx
+ * const [isPending, start] = useTransition()
+ *
+ * <input oninput={e => start(() => setFilter(e.target.value))} />
+ * {isPending && <Spinner />}
+ * ```
+ */
+export function useTransition(): [boolean, (fn: () => void) => Promise<void>] {
+  const state = hook(() => reactive({ pending: 0 }))
+
+  const start = (fn: () => void) => {
+    // The pending flag itself is urgent feedback
+    runWithPriority('user-blocking', () => {
+      state.pending++
+    })
+    return startTransition(fn).then(() => {
+      state.pending--
+    })
+  }
+
+  return [state.pending > 0, start]
+}
@@ -1,79 +1,274 @@
-import { reactive } from './reactive'
-import { unsafeEffect } from './lifecycle'
-import { hook } from './hook'
+import { reactive, toRaw } from './reactive'
+import {
+  computed,
+  effectScope,
+  onScopeDispose,
+  untrack,
+  sync,
+  setDebugName,
+  type EffectScope,
+} from './lifecycle'
+import { getComponent, hook } from './hook'
 import { registerSignal, updateSignal } from './devtools'
-import { Context } from './context'
+import { Context, captureContext, getContextValue } from './context'
 import { Useable, isUseable } from './useable'
+import { Query, type QueryOptions } from './query'
+import { SuspenseCtx, ErrorBoundaryCtx, resourcePosition } from './suspense'
+import type { Store, StoreActions, BoundActions } from './store'
+import {
+  persistState,
+  type PersistOptions,
+  type StorageAdapter,
+  type StorageName,
+} from './persist'
 
 // Re-export Context and Useable
 export { Context } from './context'
 export { Useable, isUseable } from './useable'
 
 // Types
-export type Setter<T> = (newValue: T | ((prev: T) => T)) => void
+export type Setter<T> = ((newValue: T | ((prev: T) => T)) => void) & {
+  /** Read the current value without subscribing to it */
+  peek: () => T
+}
 
-export type ResourceControl<P = void> = {
+export type ResourceControl<P = void, T = unknown> = {
+  /** Request again; without params an in-flight request is reused */
   refetch: (params?: P) => Promise<void>
+  /** Read the current value without subscribing to it */
+  peek: () => T
+  /** True until the first result arrives */
   readonly loading: boolean
   readonly error: unknown
   readonly status: 'idle' | 'loading' | 'success' | 'error'
+  /** True while any request, including a background refetch, is in flight */
+  readonly isFetching: boolean
+  /** True once the result is older than `staleTime` or was invalidated */
+  readonly isStale: boolean
 }
 
 export interface UseContext<P = void> {
   onCleanup: (fn: () => void) => void
   params?: P
+  /** Aborted when a newer run starts or the owner is disposed */
+  signal: AbortSignal
 }
 
-export interface UseOptions {
+export interface UseOptions extends QueryOptions {
   key?: unknown[]
   name?: string
+  /**
+   * Custom equality for derived values: returning true keeps the previous
+   * value and stops dependents from re-running
+   */
+  equals?: (previous: never, next: never) => boolean
+  /**
+   * Suspend the nearest `<Suspense>` boundary until the first result
+   * arrives, and report failures to the nearest `<ErrorBoundary>`
+   */
+  suspense?: boolean
+  /**
+   * Save keyed value state to storage and restore it on load:
+   * a storage name, a custom adapter or full options
+   */
+  persist?: true | StorageName | StorageAdapter | PersistOptions
+}
+
+/** Value state behind `use(value)` */
+interface SignalContainer {
+  type: 'signal'
+  value: unknown
 }
 
+/**
+ * Derived state behind `use(fn)`: a computed or a resource `Query`
+ *
+ * @internal
+ */
+export interface DerivedContainer {
+  type: 'computed' | 'resource'
+  readonly value: unknown
+  readonly loading: boolean
+  readonly error: unknown
+  readonly status: ResourceControl['status']
+  readonly isFetching: boolean
+  readonly isStale: boolean
+  fetch(...params: [unknown?]): Promise<void>
+}
+
+/**
+ * State kept per `use()` call, and in the registry when keyed
+ *
+ * @internal
+ */
+export type StateContainer = SignalContainer | DerivedContainer
+
 // Global State Registry
-const globalRegistry = new Map<string, any>()
+const globalRegistry = new Map<string, StateContainer>()
+const registryListeners = new Set<
+  (key: string, container: StateContainer) => void
+>()
 
 function serializeKey(key: unknown[]): string {
   return JSON.stringify(key)
 }
 
+function register(serializedKey: string, container: StateContainer): void {
+  globalRegistry.set(serializedKey, container)
+  registryListeners.forEach((listener) => listener(serializedKey, container))
+}
+
+function createSignal(value: unknown, name?: string): SignalContainer {
+  const container = reactive<SignalContainer>({
+    type: 'signal',
+    value,
+  })
+
+  // Register with DevTools
+  registerSignal(container, name)
+  if (name) setDebugName(toRaw(container), name)
+  return container
+}
+
+/**
+ * Call listener for every keyed container, now and whenever one is created
+ *
+ * @returns Function removing the listener
+ * @internal
+ */
+export function observeKeyedState(
+  listener: (key: string, container: StateContainer) => void
+): () => void {
+  globalRegistry.forEach((container, key) => listener(key, container))
+  registryListeners.add(listener)
+  return () => registryListeners.delete(listener)
+}
+
+/**
+ * Capture the value of every keyed value state, e.g. for tests, crash
+ * recovery or devtools. Values are captured as-is, not cloned.
+ *
+ * @returns Values by serialized key
+ */
+export function snapshotState(): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {}
+  globalRegistry.forEach((container, key) => {
+    if (container.type === 'signal') {
+      snapshot[key] = toRaw(untrack(() => container.value))
+    }
+  })
+  return snapshot
+}
+
+/**
+ * Write back a snapshot taken by `snapshotState()`. Keys nobody uses yet are
+ * registered so the next `use(value, { key })` starts from the snapshot;
+ * keyed state missing from the snapshot is left unchanged.
+ */
+export function restoreState(snapshot: Record<string, unknown>): void {
+  sync(() => {
+    Object.keys(snapshot).forEach((key) => {
+      const value = snapshot[key]
+      const container = globalRegistry.get(key)
+      if (!container) {
+        register(key, createSignal(value))
+      } else if (container.type === 'signal') {
+        container.value = value
+        updateSignal(container, value)
+      }
+    })
+  })
+}
+
+/**
+ * Write keyed state from outside its components
+ *
+ * @returns Function restoring the previous value, or undefined if nothing
+ * is registered under the key
+ * @internal
+ */
+export function writeKeyedState<T>(
+  key: unknown[],
+  value: T | ((prev: T) => T)
+): (() => void) | undefined {
+  const container = globalRegistry.get(serializeKey(key))
+  if (!container) return undefined
+
+  if (container.type === 'computed') {
+    throw new Error(`Cannot write to derived state ${serializeKey(key)}`)
+  }
+
+  const write = (next: T) => {
+    if (container.type === 'signal') {
+      container.value = next
+      updateSignal(container, next)
+    } else if (container instanceof Query) {
+      container.setData(next)
+    }
+  }
+
+  const previous = untrack(() => container.value) as T
+  write(
+    typeof value === 'function' ? (value as (prev: T) => T)(previous) : value
+  )
+
+  return () => write(previous)
+}
+
 // Overloads
 export function use<T>(ctx: Context<T>): [T, undefined]
 
-export function use<T, P, A extends unknown[]>(source: Useable<T, P, A>, params?: P): [T, ...A]
+export function use<S extends object, A extends StoreActions<S>, R>(
+  store: Store<S, A>,
+  selector: (state: S) => R
+): [R, BoundActions<A>]
+
+export function use<S extends object, A extends StoreActions<S>>(
+  store: Store<S, A>
+): [S, BoundActions<A>]
+
+export function use<T, P, A extends unknown[]>(
+  source: Useable<T, P, A>,
+  params?: P
+): [T, ...A]
 
 export function use<T, P = void>(
   fn: (ctx: UseContext<P>) => Promise<T>,
-  depsOrOptions?: any[] | UseOptions,
+  depsOrOptions?: unknown[] | UseOptions,
   options?: UseOptions
-): [T | undefined, ResourceControl<P>]
+): [T | undefined, ResourceControl<P, T | undefined>]
 
 export function use<T>(
   fn: (ctx: UseContext) => T,
-  depsOrOptions?: any[] | UseOptions,
+  depsOrOptions?: unknown[] | UseOptions,
   options?: UseOptions
-): [T, ResourceControl]
+): [T, ResourceControl<void, T>]
 
 export function use<T>(
-  initialValue: T extends Function ? never : T,
+  initialValue: T extends (...args: never[]) => unknown ? never : T,
   options?: UseOptions
 ): [T, Setter<T>]
 
 export function use<T, P = void>(
-  input: T | Useable<T, P> | ((ctx: UseContext<P>) => T) | ((ctx: UseContext<P>) => Promise<T>),
-  depsOrOptions?: any[] | UseOptions | P,
+  input:
+    | T
+    | Useable<T, P>
+    | ((ctx: UseContext<P>) => T)
+    | ((ctx: UseContext<P>) => Promise<T>),
+  depsOrOptions?: unknown[] | UseOptions | P,
   thirdArg?: UseOptions
-): any {
+): unknown[] {
   // Useable mode: use(SomeUseable, params?) returns [value, undefined] or [value, send] for sendable
   // This handles Context, Stream, Shared, and any custom Useable
   if (isUseable(input)) {
-    const source = input as Useable<T, P>
+    const source = input as Useable<T, P, unknown[]>
     const params = depsOrOptions as P | undefined
 
     // Hook to store subscription state
     const state = hook(() => {
       const s = reactive({
         value: source.getInitial(params),
-        cleanup: undefined as (() => void) | undefined
+        cleanup: undefined as (() => void) | undefined,
       })
 
       // Subscribe to updates
@@ -81,6 +276,9 @@ export function use<T, P = void>(
         s.value = newValue
       })
 
+      // Unsubscribe when the owning component is disposed
+      onScopeDispose(() => s.cleanup?.())
+
       return s
     })
 
@@ -100,12 +298,12 @@ export function use<T, P = void>(
   // - use(value, { key }) → options only
   // - use(fn, [deps]) → deps only
   // - use(fn, [deps], { key }) → deps + options
-  let deps: any[] | undefined
+  let deps: unknown[] | undefined
   let options: UseOptions | undefined
 
   if (Array.isArray(depsOrOptions)) {
     deps = depsOrOptions
-    options = thirdArg  // third arg is options when second is deps array
+    options = thirdArg // third arg is options when second is deps array
   } else if (depsOrOptions && typeof depsOrOptions === 'object') {
     options = depsOrOptions as UseOptions
   }
@@ -114,13 +312,59 @@ export function use<T, P = void>(
   if (options?.key && !Array.isArray(options.key)) {
     throw new Error('State key must be an array')
   }
+  if (options?.persist && !options.key) {
+    throw new Error('Persisted state needs a key')
+  }
 
   // Hook Wrapper: Store container reference and track key
   const stateRef = hook(() => {
     return reactive({
-      container: undefined as any,
-      serializedKey: undefined as any
+      container: undefined as StateContainer | undefined,
+      serializedKey: undefined as string | undefined,
+    })
+  })
+
+  // Resources count the components using them to drive polling,
+  // background revalidation and cache expiry
+  const observer = hook(() => {
+    const o = { query: undefined as Query<T, P> | undefined }
+    onScopeDispose(() => o.query?.unobserve())
+    return o
+  })
+
+  // Boundaries a suspense resource reports to, captured on first render
+  const boundaries = hook(() => {
+    if (!options?.suspense) return undefined
+
+    const component = getComponent()
+    const b = {
+      suspense: getContextValue(SuspenseCtx),
+      errorBoundary: getContextValue(ErrorBoundaryCtx),
+      reported: undefined as unknown,
+      // Matches the parked resource to the component re-created in its place
+      position: component ? resourcePosition(component) : undefined,
+      owned: undefined as
+        | {
+            position: unknown[]
+            container: DerivedContainer
+            scope: EffectScope
+          }
+        | undefined,
+    }
+
+    // A resource still loading when its component is swapped out for the
+    // fallback is parked on the boundary instead of being cancelled
+    onScopeDispose(() => {
+      const owned = b.owned
+      if (!owned) return
+      if (owned.container.loading && b.suspense.cache) {
+        b.suspense.cache.park(owned)
+      } else {
+        owned.scope.stop()
+      }
     })
+
+    return b
   })
 
   // Compute serialized key
@@ -134,39 +378,60 @@ export function use<T, P = void>(
   if (typeof input === 'function' && deps !== undefined) {
     const fn = input as (ctx: UseContext<P>) => T | Promise<T>
 
-    const memoState = hook(() => ({
-      value: undefined as T | undefined,
-      prevDeps: undefined as any[] | undefined,
-      cleanup: undefined as (() => void) | undefined,
-      hasRun: false,
-      params: undefined as P | undefined
-    }))
+    const memoState = hook(() => {
+      const m = {
+        value: undefined as T | undefined,
+        prevDeps: undefined as unknown[] | undefined,
+        cleanup: undefined as (() => void) | undefined,
+        controller: undefined as AbortController | undefined,
+        hasRun: false,
+        params: undefined as P | undefined,
+      }
+
+      onScopeDispose(() => {
+        m.controller?.abort()
+        if (m.cleanup) {
+          m.cleanup()
+          m.cleanup = undefined
+        }
+      })
+
+      return m
+    })
 
     let hasChanged = true
-    if (memoState.hasRun && memoState.prevDeps) {
-      hasChanged = deps.length !== memoState.prevDeps.length ||
-        deps.some((d, i) => d !== memoState.prevDeps![i])
+    const prevDeps = memoState.prevDeps
+    if (memoState.hasRun && prevDeps) {
+      hasChanged =
+        deps.length !== prevDeps.length ||
+        deps.some((d, i) => d !== prevDeps[i])
     }
 
     if (hasChanged) {
       // Run previous cleanup
+      memoState.controller?.abort()
       if (memoState.cleanup) {
         memoState.cleanup()
         memoState.cleanup = undefined
       }
 
+      memoState.controller = new AbortController()
+
       // Create context with onCleanup
       const ctx: UseContext<P> = {
         onCleanup: (fn) => {
           memoState.cleanup = fn
         },
-        params: memoState.params
+        params: memoState.params,
+        signal: memoState.controller.signal,
       }
 
       const result = fn(ctx)
 
       if (result instanceof Promise) {
-        throw new Error('deps with async functions is not supported. Use use(asyncFn) without deps for async resources.')
+        throw new Error(
+          'deps with async functions is not supported. Use use(asyncFn) without deps for async resources.'
+        )
       }
 
       memoState.value = result
@@ -174,11 +439,24 @@ export function use<T, P = void>(
       memoState.hasRun = true
     }
 
-    const control: ResourceControl<P> = {
+    const control: ResourceControl<P, T | undefined> = {
       refetch: async () => {},
-      get loading() { return false },
-      get error() { return null },
-      get status() { return 'success' as const }
+      peek: () => memoState.value,
+      get loading() {
+        return false
+      },
+      get error() {
+        return null
+      },
+      get status() {
+        return 'success' as const
+      },
+      get isFetching() {
+        return false
+      },
+      get isStale() {
+        return false
+      },
     }
 
     return [memoState.value, control]
@@ -189,97 +467,164 @@ export function use<T, P = void>(
     stateRef.serializedKey = serializedKey
 
     // Check Registry FIRST
-    if (serializedKey && globalRegistry.has(serializedKey)) {
-      stateRef.container = globalRegistry.get(serializedKey)
+    const registered = serializedKey
+      ? globalRegistry.get(serializedKey)
+      : undefined
+    if (registered) {
+      stateRef.container = registered
     } else {
-      let newContainer: any
+      let newContainer: StateContainer
 
       // Function (Computed or Resource)
       if (typeof input === 'function') {
         const fn = input as (ctx: UseContext<P>) => T | Promise<T>
 
-        // State for async/computed
-        const state = reactive({
-          type: 'resource',
-          value: undefined as T | undefined,
-          loading: true,
-          error: null as any,
-          status: 'idle' as 'idle' | 'loading' | 'success' | 'error',
-          cleanup: undefined as (() => void) | undefined,
-          params: undefined as P | undefined,
-          run: () => {}
-        })
-
-        const run = (params?: P) => {
-          // Run previous cleanup
-          if (state.cleanup) {
-            state.cleanup()
-            state.cleanup = undefined
-          }
-
-          // Store params for context
-          state.params = params
-
-          try {
-            // Create context
-            const ctx: UseContext<P> = {
-              onCleanup: (fn) => {
-                state.cleanup = fn
-              },
-              params: state.params
-            }
-
-            const result = fn(ctx)
-
-            if (result instanceof Promise) {
-              state.loading = true
-              state.status = 'loading'
-              state.error = null
-
-              result
-                .then(data => {
-                  state.value = data
-                  state.status = 'success'
-                  state.loading = false
-                })
-                .catch(err => {
-                  state.error = err
-                  state.status = 'error'
-                  state.loading = false
-                })
-            } else {
-              state.value = result
-              state.status = 'success'
-              state.loading = false
-              state.error = null
-            }
-          } catch (err) {
-            state.error = err
-            state.status = 'error'
-            state.loading = false
+        // Suspense resources belong to their boundary so they survive the
+        // fallback swapping their component out
+        const position = boundaries?.position
+        const cache =
+          serializedKey || !position ? undefined : boundaries?.suspense.cache
+        const parked = position && cache?.adopt(position)
+
+        // Keyed containers outlive the component that created them
+        const scope =
+          parked?.scope ??
+          (cache
+            ? (cache.scope.run(() => effectScope()) ?? effectScope())
+            : effectScope(!!serializedKey))
+        newContainer = parked
+          ? parked.container
+          : (scope.run(() => {
+              let cleanup: (() => void) | undefined
+              let controller: AbortController | undefined
+              let params: P | undefined
+              let syncError: unknown = null
+              // Refetches run later, but read context from where use() was called
+              const withContext = captureContext()
+
+              // Lazily re-evaluated whenever a dependency read by fn changes
+              const node = computed(
+                () => {
+                  // Run previous cleanup and cancel its request
+                  controller?.abort()
+                  if (cleanup) {
+                    cleanup()
+                    cleanup = undefined
+                  }
+
+                  const current = new AbortController()
+                  controller = current
+                  syncError = null
+                  try {
+                    return withContext(() =>
+                      fn({
+                        onCleanup: (fn) => {
+                          cleanup = fn
+                        },
+                        params,
+                        signal: current.signal,
+                      })
+                    )
+                  } catch (err) {
+                    syncError = err
+                    return undefined
+                  }
+                },
+                {
+                  equals: options?.equals as
+                    | ((a: unknown, b: unknown) => boolean)
+                    | undefined,
+                }
+              )
+
+              onScopeDispose(() => {
+                controller?.abort()
+                if (cleanup) {
+                  cleanup()
+                  cleanup = undefined
+                }
+                node.stop()
+              })
+
+              const initial = node.value
+
+              if (initial instanceof Promise) {
+                // Resource: requests are deduped, retried and cached per key
+                const query = new Query<T, P>(
+                  {
+                    read: () => node.value,
+                    rerun: (...next: [P?]) => {
+                      if (next.length) params = next[0]
+                      node.markDirty()
+                      return node.peek()
+                    },
+                    syncError: () => syncError,
+                  },
+                  options,
+                  currentKey && serializedKey
+                    ? {
+                        value: currentKey,
+                        serialized: serializedKey,
+                        remove: () => {
+                          scope.stop()
+                          if (globalRegistry.get(serializedKey) === query) {
+                            globalRegistry.delete(serializedKey)
+                          }
+                        },
+                      }
+                    : undefined
+                )
+
+                query.start(initial)
+                return query
+              }
+
+              // Computed: memoized and only recomputed when read after a change
+              const derived: DerivedContainer = {
+                type: 'computed',
+                get value() {
+                  return node.value
+                },
+                get loading() {
+                  return false
+                },
+                get error() {
+                  void node.value
+                  return syncError
+                },
+                get status() {
+                  return this.error ? 'error' : 'success'
+                },
+                isFetching: false,
+                isStale: false,
+                fetch: (...next: [unknown?]) => {
+                  params = next[0] as P | undefined
+                  node.markDirty()
+                  return Promise.resolve()
+                },
+              }
+              return derived
+            }) as DerivedContainer)
+
+        if (cache && boundaries && position) {
+          boundaries.owned = {
+            position,
+            container: newContainer,
+            scope,
           }
         }
-
-        state.run = run
-
-        // Make it reactive!
-        unsafeEffect(() => run())
-
-        newContainer = state
       } else {
         // Value (Signal)
-        newContainer = reactive({
-          type: 'signal',
-          value: input
-        })
+        newContainer = createSignal(input, options?.name)
 
-        // Register with DevTools
-        registerSignal(newContainer, options?.name)
+        if (options?.persist && serializedKey) {
+          persistState(newContainer, serializedKey, options.persist)
+        }
       }
 
       // Register in global registry if needed
       if (serializedKey) {
-        globalRegistry.set(serializedKey, newContainer)
+        register(serializedKey, newContainer)
       }
 
       stateRef.container = newContainer
@@ -288,26 +633,68 @@ export function use<T, P = void>(
 
   const container = stateRef.container
 
+  const query =
+    container instanceof Query ? (container as Query<T, P>) : undefined
+
+  if (query && observer.query !== query) {
+    observer.query?.unobserve()
+    observer.query = query
+    query.observe()
+  }
+
+  if (boundaries && query) {
+    if (query.loading) {
+      const pending = query.promise
+      if (pending && boundaries.suspense.hasBoundary) {
+        boundaries.suspense.register(pending)
+      }
+    } else if (
+      query.status === 'error' &&
+      boundaries.reported !== query.error
+    ) {
+      boundaries.reported = query.error
+      const error = query.error
+      boundaries.errorBoundary?.handleError(
+        error instanceof Error ? error : new Error(String(error)),
+        'render'
+      )
+    }
+  }
+
   // Access container.value to track dependency
   const currentValue = container.value
 
   if (container.type === 'signal') {
-    const setter: Setter<T> = (newValue) => {
+    const setter = ((newValue: T | ((prev: T) => T)) => {
       if (typeof newValue === 'function') {
-        container.value = (newValue as Function)(container.value)
+        container.value = (newValue as (prev: T) => T)(container.value as T)
       } else {
         container.value = newValue
       }
       updateSignal(container, container.value)
-    }
+    }) as Setter<T>
+    setter.peek = () => untrack(() => container.value as T)
     return [currentValue, setter]
   } else {
     // Resource / Computed
-    const control: ResourceControl<P> = {
-      refetch: async (params?: P) => { container.run(params) },
-      get loading() { return container.loading },
-      get error() { return container.error },
-      get status() { return container.status }
+    const control: ResourceControl<P, T> = {
+      refetch: (...params: [P?]) => container.fetch(...params),
+      peek: () => untrack(() => container.value as T),
+      get loading() {
+        return container.loading
+      },
+      get error() {
+        return container.error
+      },
+      get status() {
+        return container.status
+      },
+      get isFetching() {
+        return container.isFetching
+      },
+      get isStale() {
+        return container.isStale
+      },
     }
     return [currentValue, control]
   }
@@ -0,0 +1,39 @@
+import type { FNodeChild } from '../types'
+import type { DynamicProps } from './types'
+
+/**
+ * Render the component or element given as `component`, with the other
+ * props
+ *
+ * A different component replaces the previous one and disposes it; the
+ * same one is updated in place.
+ *
+ * @example
+ * ```tsx
+ * <Dynamic component={state.editing ? Editor : Viewer} doc={doc} />
+ * <Dynamic component={`h${level}`}>{title}</Dynamic>
+ * ```
+ */
+export function Dynamic<P>(props: DynamicProps<P>): FNodeChild {
+  const {
+    component,
+    children,
+    key: _key,
+    ...rest
+  } = props as DynamicProps<P> & { key?: unknown }
+  if (!component) return null
+
+  return {
+    type: component,
+    props: rest,
+    children:
+      children === undefined
+        ? []
+        : Array.isArray(children)
+          ? children
+          : [children],
+    // Components are kept by identity, so two different ones never share
+    // an instance
+    key: typeof component === 'function' ? component : undefined,
+  }
+}
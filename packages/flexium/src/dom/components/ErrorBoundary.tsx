@@ -1,5 +1,6 @@
 import { use } from '../../core/use'
 import { hook } from '../../core/hook'
+import { ErrorBoundaryCtx, type ErrorBoundaryHandle } from '../../core/suspense'
 import type { FNodeChild } from '../types'
 import type { ErrorInfo, ErrorBoundaryProps } from './types'
 
@@ -22,9 +23,7 @@ export function getComponentStack(): string {
 }
 
 // Stack of error boundaries for nested error propagation
-interface ErrorBoundaryInstance {
-  handleError: (error: Error, phase: 'render' | 'effect' | 'event') => void
-}
+type ErrorBoundaryInstance = ErrorBoundaryHandle
 
 let errorBoundaryStack: ErrorBoundaryInstance[] = []
 
@@ -57,10 +56,13 @@ export function ErrorBoundary(props: ErrorBoundaryProps): FNodeChild {
   const { fallback, onError, children, resetKey } = props
 
   // Error state
-  const [errorState, setErrorState] = use<{
-    error: Error | null
-    info: ErrorInfo | null
-  }>({ error: null, info: null })
+  const [errorState, setErrorState] = use<
+    | {
+        error: Error
+        info: ErrorInfo
+      }
+    | { error: null; info: null }
+  >({ error: null, info: null })
 
   // Track reset key changes to clear error
   const prevResetKeyRef = hook(() => ({ current: resetKey }))
@@ -91,7 +93,7 @@ export function ErrorBoundary(props: ErrorBoundaryProps): FNodeChild {
   // If we have an error, render fallback
   if (errorState.error) {
     if (typeof fallback === 'function') {
-      return fallback(errorState.error, errorState.info!)
+      return fallback(errorState.error, errorState.info)
     }
     return fallback
   }
@@ -100,8 +102,14 @@ export function ErrorBoundary(props: ErrorBoundaryProps): FNodeChild {
   pushErrorBoundary(boundaryInstance)
 
   try {
-    // Return children - they will be rendered with this boundary active
-    return children
+    // Provide the boundary to descendants that report errors later,
+    // e.g. suspense resources that fail after the first render
+    return {
+      type: ErrorBoundaryCtx.Provider,
+      props: { value: boundaryInstance },
+      children: [children],
+      key: undefined,
+    }
   } finally {
     popErrorBoundary()
   }
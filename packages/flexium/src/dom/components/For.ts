@@ -0,0 +1,97 @@
+import { hook } from '../../core/hook'
+import { reactive, toRaw } from '../../core/reactive'
+import type { ComponentMarkers, FNode, FNodeChild } from '../types'
+import type { ForProps } from './types'
+
+interface ForRowProps<T> {
+  item: T
+  // Index of the item, updated in place when the item moves
+  position: { index: number }
+  // Holds the list's latest render function
+  latest: { render: ForProps<T>['children'] }
+}
+
+interface KeptRow<T> {
+  // Item of the last render
+  item: T
+  position: { index: number }
+}
+
+// One list item. Kept by key, so its DOM nodes and state follow the item
+// when the list is reordered.
+function ForRow<T>(props: ForRowProps<T>): FNodeChild {
+  return props.latest.render(props.item, props.position.index)
+}
+
+// Rows skip re-rendering while their item stays the same; a move updates
+// the index they read, and state read inside a row still re-renders it
+;(ForRow as ComponentMarkers)._arePropsEqual = (prev, next) =>
+  prev.item === next.item
+
+/**
+ * Render a list with one cached row per item
+ *
+ * Rows are matched to items by `key` (the item itself by default), so
+ * reordering, inserting or removing items moves, creates or removes only
+ * the affected rows. Focus, selection and CSS transitions in kept rows
+ * survive.
+ *
+ * @example
+ * ```tsx
+ * <For each={todos} key={todo => todo.id} fallback={<p>Nothing to do</p>}>
+ *   {(todo, index) => <li>{index + 1}. {todo.text}</li>}
+ * </For>
+ * ```
+ */
+export function For<T>(props: ForProps<T>): FNodeChild {
+  const { each, key, fallback } = props
+  const render = props.children
+
+  // Rows by item key. Their positions double as registry keys private to
+  // this list, so two lists under one parent never share rows
+  const kept = hook(() => new Map<unknown, KeptRow<T>>())
+  const latest = hook(() => ({ render }))
+  latest.render = render
+
+  if (!each || each.length === 0) {
+    kept.clear()
+    return fallback ?? null
+  }
+
+  const used = new Set<unknown>()
+  const rows = each.map((item, index): FNode => {
+    const itemKey = key ? key(item, index) : item
+    let row = kept.get(itemKey)
+    if (used.has(itemKey)) {
+      if (process.env.NODE_ENV !== 'production') {
+        console.warn(
+          '[Flexium] <For> found a duplicate key; the row will be re-created on every render:',
+          itemKey
+        )
+      }
+      row = { item, position: reactive({ index }) }
+    } else if (!row) {
+      row = { item, position: reactive({ index }) }
+      kept.set(itemKey, row)
+    } else if (row.position.index !== index) {
+      // A row with a new item re-renders anyway, reading the new index
+      if (row.item === item) row.position.index = index
+      else toRaw(row.position).index = index
+    }
+    row.item = item
+    used.add(itemKey)
+
+    return {
+      type: ForRow,
+      props: { item, position: row.position, latest },
+      children: [],
+      key: row.position,
+    }
+  })
+
+  kept.forEach((_, itemKey) => {
+    if (!used.has(itemKey)) kept.delete(itemKey)
+  })
+
+  return rows
+}
@@ -0,0 +1,23 @@
+import type { FNodeChild } from '../types'
+import type { FragmentProps } from './types'
+
+/**
+ * Group children without a wrapper element
+ *
+ * A keyed fragment is matched to its previous render by key, like any
+ * keyed component: in a reordered list its nodes move along with the
+ * state of the components inside it.
+ *
+ * @example
+ * ```tsx
+ * {terms.map(term => (
+ *   <Fragment key={term.id}>
+ *     <dt>{term.name}</dt>
+ *     <dd>{term.definition}</dd>
+ *   </Fragment>
+ * ))}
+ * ```
+ */
+export function Fragment(props: FragmentProps): FNodeChild {
+  return props.children ?? null
+}
@@ -1,15 +1,15 @@
-import { use } from '../../core/use'
-import { hook } from '../../core/hook'
-import { render } from '../render'
+import type { ComponentMarkers, FNodeChild } from '../types'
 import type { PortalProps } from './types'
 
 /**
  * Portal component that renders children into a different DOM node
  *
- * @deprecated Use Portal from 'flexium-ui' instead:
- * ```tsx
- * import { Portal } from 'flexium-ui'
- * ```
+ * Useful for modals, tooltips, and dropdowns that need to escape their
+ * parent's overflow or z-index stacking context. The children stay part of
+ * the component tree: they read the parent's context, errors reach its
+ * ErrorBoundary, Suspense waits for them, their events bubble to the
+ * parent, and they are removed with it. On the server a portal renders
+ * nothing.
  *
  * @example
  * ```tsx
@@ -28,51 +28,9 @@ import type { PortalProps } from './types'
  * }
  * ```
  */
-export function Portal(props: PortalProps): null {
-  const { target, children } = props
-
-  // Store rendered container for cleanup
-  const portalState = hook(() => ({
-    container: null as HTMLElement | null,
-    mounted: false
-  }))
-
-  use(({ onCleanup }) => {
-    // Resolve target container
-    let container: HTMLElement | null = null
-
-    if (typeof target === 'string') {
-      container = document.querySelector(target)
-    } else if (target instanceof HTMLElement) {
-      container = target
-    }
-
-    if (!container) {
-      console.warn('[Flexium Portal] Target container not found:', target)
-      return
-    }
-
-    // Create a wrapper div to contain portal content
-    const portalWrapper = document.createElement('div')
-    portalWrapper.setAttribute('data-flexium-portal', 'true')
-    container.appendChild(portalWrapper)
-
-    portalState.container = portalWrapper
-    portalState.mounted = true
-
-    // Render children into the portal wrapper
-    render(children, portalWrapper)
-
-    // Cleanup function
-    onCleanup(() => {
-      if (portalWrapper.parentNode) {
-        portalWrapper.parentNode.removeChild(portalWrapper)
-      }
-      portalState.container = null
-      portalState.mounted = false
-    })
-  }, [target, children])
-
-  // Portal renders nothing in its original location
-  return null
+export function Portal(props: PortalProps): FNodeChild {
+  return props.children
 }
+
+// The renderer puts the output of portals into their target
+;(Portal as ComponentMarkers)._portal = true
@@ -0,0 +1,105 @@
+import { hook } from '../../core/hook'
+import type { FNode, FNodeChild } from '../types'
+import type { ShowProps } from './types'
+
+export interface BranchSlot {
+  id: unknown
+  value: unknown
+  token: object
+}
+
+// One branch of a conditional. Branches are kept by key in the registry of
+// the conditional, so a branch change disposes the components of the old
+// branch and starts the new one fresh without touching the siblings of the
+// conditional.
+function Branch(props: { children: FNodeChild }): FNodeChild {
+  return props.children
+}
+
+/**
+ * Read a `when` prop; a function is an accessor, so only the component
+ * reading it re-renders when it changes
+ *
+ * @internal
+ */
+export function readWhen<T>(when: T | (() => T)): T {
+  return typeof when === 'function' ? (when as () => T)() : when
+}
+
+/**
+ * Slot remembering the branch shown last, for keyed conditionals
+ *
+ * @internal
+ */
+export function useBranchSlot(): BranchSlot {
+  return hook(() => ({ id: undefined, value: undefined, token: {} }))
+}
+
+/**
+ * FNode of the branch id showing value. Keyed, the branch gets a new key
+ * (and so new components) whenever value changes.
+ *
+ * @internal
+ */
+export function branch(
+  slot: BranchSlot,
+  id: unknown,
+  value: unknown,
+  keyed: boolean | undefined,
+  children: FNodeChild
+): FNode {
+  let key = id
+  if (keyed) {
+    if (slot.id !== id || slot.value !== value) {
+      slot.id = id
+      slot.value = value
+      slot.token = {}
+    }
+    key = slot.token
+  }
+  return { type: Branch, props: { children }, children: [], key }
+}
+
+/**
+ * @internal
+ */
+export function branchChildren<T>(
+  children: ShowProps<T>['children'],
+  value: T
+): FNodeChild {
+  return typeof children === 'function'
+    ? (children as (value: NonNullable<T>) => FNodeChild)(
+        value as NonNullable<T>
+      )
+    : children
+}
+
+/**
+ * Render children while `when` is truthy, fallback otherwise
+ *
+ * Each branch owns its components: switching disposes the branch left and
+ * leaves the siblings of `<Show>` alone. Pass `when` as a function to
+ * re-render only the `<Show>` when it changes. With `keyed`, the children
+ * are re-created whenever `when` becomes a different value.
+ *
+ * @example
+ * ```tsx
+ * <Show when={() => state.user} fallback={<Login />} keyed>
+ *   {user => <Profile user={user} />}
+ * </Show>
+ * ```
+ */
+export function Show<T>(props: ShowProps<T>): FNodeChild {
+  const slot = useBranchSlot()
+  const value = readWhen(props.when)
+  if (!value) {
+    return branch(slot, 'fallback', undefined, false, props.fallback ?? null)
+  }
+  return branch(
+    slot,
+    'children',
+    value,
+    props.keyed,
+    branchChildren(props.children, value)
+  )
+}
@@ -1,12 +1,16 @@
 import { use } from '../../core/use'
 import { hook } from '../../core/hook'
 import { SuspenseCtx } from './suspenseContext'
+import { SuspenseCache } from '../../core/suspense'
 import type { SuspenseProps, SuspenseContextValue } from './types'
 import type { FNodeChild } from '../types'
 
 /**
  * Suspense component that shows fallback while children are loading
  *
+ * Children suspend it through `lazy()` components or
+ * `use(fn, { suspense: true })` resources.
+ *
  * @example
  * ```tsx
  * const Dashboard = lazy(() => import('./Dashboard'))
@@ -27,6 +31,8 @@ export function Suspense(props: SuspenseProps): FNodeChild {
   const pendingSet = hook(() => new Set<Promise<any>>())
   const [, setPendingCount] = use(0)
   const [showFallback, setShowFallback] = use(false)
+  // Keeps suspended resources alive while children are swapped out
+  const cache = hook(() => new SuspenseCache())
 
   // Register function for lazy components
   const register = (promise: Promise<any>) => {
@@ -36,23 +42,26 @@ export function Suspense(props: SuspenseProps): FNodeChild {
       setPendingCount(c => c + 1)
       setShowFallback(true)
 
-      // Wait for resolution
-      promise.finally(() => {
+      // Wait for resolution. A rejection is reported by the resource that
+      // threw it, so it only ends the wait here.
+      const settled = () => {
         pendingSet.delete(promise)
-        setPendingCount(c => {
+        setPendingCount((c) => {
           const newCount = c - 1
           if (newCount === 0) {
             setShowFallback(false)
           }
           return newCount
         })
-      })
+      }
+      void promise.then(settled, settled)
     }
   }
 
   const contextValue: SuspenseContextValue = {
     register,
-    hasBoundary: true
+    hasBoundary: true,
+    cache,
   }
 
   // Render fallback or children based on pending state
@@ -0,0 +1,69 @@
+import type { FNode, FNodeChild } from '../types'
+import type { MatchProps, SwitchProps } from './types'
+import { Show, branch, branchChildren, readWhen, useBranchSlot } from './Show'
+
+/**
+ * One case of a `<Switch>`. Outside a `<Switch>` it works like `<Show>`.
+ */
+export function Match<T>(props: MatchProps<T>): FNodeChild {
+  return Show(props)
+}
+
+function isMatch(child: unknown): child is FNode {
+  return !!child && typeof child === 'object' && (child as FNode).type === Match
+}
+
+function matchesOf(children: FNodeChild): FNode[] {
+  if (Array.isArray(children)) return children.flatMap(matchesOf)
+  if (isMatch(children)) return [children]
+  if (
+    process.env.NODE_ENV !== 'production' &&
+    children != null &&
+    typeof children !== 'boolean'
+  ) {
+    console.warn('[Flexium] <Switch> only renders <Match> children:', children)
+  }
+  return []
+}
+
+/**
+ * Render the first `<Match>` whose `when` is truthy, fallback if none is
+ *
+ * Like `<Show>`, each case owns its components and changing cases disposes
+ * the one left.
+ *
+ * @example
+ * ```tsx
+ * <Switch fallback={<NotFound />}>
+ *   <Match when={() => route.path === '/'}><Home /></Match>
+ *   <Match when={() => state.user} keyed>{user => <Profile user={user} />}</Match>
+ * </Switch>
+ * ```
+ */
+export function Switch(props: SwitchProps): FNodeChild {
+  const slot = useBranchSlot()
+  const matches = matchesOf(props.children)
+
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i]
+    const matchProps = match.props as MatchProps<unknown>
+    const value = readWhen(matchProps.when)
+    if (!value) continue
+    // Children given to f(Match, props, ...children) or in JSX
+    const children: MatchProps<unknown>['children'] =
+      match.children.length > 0
+        ? match.children.length === 1
+          ? match.children[0]
+          : match.children
+        : matchProps.children
+    return branch(
+      slot,
+      i,
+      value,
+      matchProps.keyed,
+      branchChildren(children, value)
+    )
+  }
+
+  return branch(slot, 'fallback', undefined, false, props.fallback ?? null)
+}
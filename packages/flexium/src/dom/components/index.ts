@@ -4,10 +4,23 @@ export type {
   LazyComponent,
   SuspenseContextValue,
   ErrorInfo,
-  ErrorBoundaryProps
+  ErrorBoundaryProps,
+  ForProps,
+  PortalProps,
+  ShowProps,
+  SwitchProps,
+  MatchProps,
+  DynamicProps,
+  FragmentProps,
 } from './types'
 
 // Components
+export { For } from './For'
+export { Show } from './Show'
+export { Switch, Match } from './Switch'
+export { Dynamic } from './Dynamic'
+export { Fragment } from './Fragment'
+export { Portal } from './Portal'
 export { Suspense } from './Suspense'
 export { ErrorBoundary } from './ErrorBoundary'
 
@@ -1,13 +1,8 @@
-import { Context } from '../../core/context'
 import { use } from '../../core/use'
+import { SuspenseCtx } from '../../core/suspense'
 import type { SuspenseContextValue } from './types'
 
-const defaultValue: SuspenseContextValue = {
-  register: () => {},
-  hasBoundary: false
-}
-
-export const SuspenseCtx = new Context<SuspenseContextValue>(defaultValue)
+export { SuspenseCtx }
 
 export function suspenseContext(): SuspenseContextValue {
   const [value] = use(SuspenseCtx)
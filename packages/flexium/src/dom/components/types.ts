@@ -2,14 +2,62 @@ import type { FNodeChild } from '../types'
 
 // Portal types
 export interface PortalProps {
-  /** Target element or CSS selector to render children into */
-  target: HTMLElement | string
+  /** Target element or CSS selector to render children into (document.body by default) */
+  target?: Element | string
   /** Children to render in the portal */
-  children: FNodeChild
+  children?: FNodeChild
   /** Optional key for reconciliation */
   key?: any
 }
 
+// For types
+export interface ForProps<T> {
+  /** Items to render */
+  each: readonly T[] | null | undefined
+  /** Identity of an item; defaults to the item itself */
+  key?: (item: T, index: number) => unknown
+  /** Shown while the list is empty */
+  fallback?: FNodeChild
+  /** Renders one item */
+  children: (item: T, index: number) => FNodeChild
+}
+
+// Show types
+export interface ShowProps<T> {
+  /** Shows children while truthy; a function is read as an accessor */
+  when: T | (() => T)
+  /** Shown while `when` is falsy */
+  fallback?: FNodeChild
+  /** Re-create the children whenever `when` changes to another value */
+  keyed?: boolean
+  /** Content, or a function of the (truthy) `when` value */
+  children?: FNodeChild | ((value: NonNullable<T>) => FNodeChild)
+}
+
+// Switch types
+export interface SwitchProps {
+  /** Shown when no Match matches */
+  fallback?: FNodeChild
+  /** Match elements */
+  children?: FNodeChild
+}
+
+export type MatchProps<T> = ShowProps<T>
+
+// Dynamic types
+export type DynamicProps<P = Record<string, unknown>> = P & {
+  /** Component or tag name to render; nothing while falsy */
+  component: string | ((props: P) => FNodeChild) | null | undefined
+  children?: FNodeChild
+}
+
+// Fragment types
+export interface FragmentProps {
+  /** Identifies the fragment among its siblings */
+  key?: unknown
+  children?: FNodeChild
+}
+
 // Suspense types
 export interface SuspenseProps {
   /** Fallback UI to display while loading */
@@ -27,12 +75,7 @@ export interface LazyComponent<P = any> {
   _error?: Error
 }
 
-export interface SuspenseContextValue {
-  /** Register a pending promise with the suspense boundary */
-  register: (promise: Promise<any>) => void
-  /** Whether there's an active suspense boundary */
-  hasBoundary: boolean
-}
+export type { SuspenseContextValue } from '../../core/suspense'
 
 // ErrorBoundary types
 export interface ErrorInfo {
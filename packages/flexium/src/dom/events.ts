@@ -0,0 +1,269 @@
+/**
+ * Event props of elements
+ *
+ * `onClick` (or `onclick`) listens to click. Modifiers go in the prop name
+ * or in an options object:
+ * - `onClickCapture` / `onClick:capture` - capture phase
+ * - `onScroll:passive` - passive listener
+ * - `onClick:once` - removed after the first call
+ * - `onClick={{ handler, capture, passive, once }}`
+ *
+ * Common bubbling events are delegated: each render() root listens once per
+ * event and calls the handlers on the path from the target up. The path
+ * follows the component tree, so content a component renders into another
+ * container (a portal) bubbles to where the component sits.
+ */
+
+export interface EventHandlerOptions<E extends Event = Event> {
+  handler: (event: E) => void
+  capture?: boolean
+  passive?: boolean
+  once?: boolean
+}
+
+interface EventBinding {
+  name: string
+  handler: (event: Event) => void
+  capture: boolean
+  passive: boolean
+  once: boolean
+  // Native listener, for events that aren't delegated
+  listener?: (event: Event) => void
+}
+
+// What events.ts keeps on the nodes it handles
+interface EventNode extends Node {
+  __eventHandlers?: Record<string, EventBinding>
+  __logicalParent?: () => Node | null
+}
+
+const DELEGATED_EVENTS = [
+  'click',
+  'dblclick',
+  'contextmenu',
+  'input',
+  'change',
+  'beforeinput',
+  'submit',
+  'keydown',
+  'keyup',
+  'focusin',
+  'focusout',
+  'pointerdown',
+  'pointerup',
+  'pointermove',
+  'pointerover',
+  'pointerout',
+  'mousedown',
+  'mouseup',
+  'mousemove',
+  'mouseover',
+  'mouseout',
+  'dragstart',
+  'dragend',
+  'dragenter',
+  'dragleave',
+  'dragover',
+  'drop',
+]
+const delegatedEvents = new Set(DELEGATED_EVENTS)
+
+// Render roots listening, with how many renders use them
+const rootCounts = new WeakMap<Node, number>()
+
+// Events already dispatched by an inner (or, capturing, outer) root
+const bubbled = new WeakSet<Event>()
+const captured = new WeakSet<Event>()
+
+export function isEventProp(key: string, value: unknown): boolean {
+  if (!key.startsWith('on') || key.length < 3) return false
+  return (
+    typeof value === 'function' ||
+    (!!value &&
+      typeof value === 'object' &&
+      typeof (value as EventHandlerOptions).handler === 'function')
+  )
+}
+
+function parseEventProp(key: string, value: unknown): EventBinding {
+  const [type, ...modifiers] = key.slice(2).split(':')
+  const options =
+    typeof value === 'function'
+      ? { handler: value as (event: Event) => void }
+      : (value as EventHandlerOptions)
+  const isCapture = type.length > 7 && type.endsWith('Capture')
+  return {
+    name: (isCapture ? type.slice(0, -7) : type).toLowerCase(),
+    handler: options.handler,
+    capture: isCapture || modifiers.includes('capture') || !!options.capture,
+    passive: modifiers.includes('passive') || !!options.passive,
+    once: modifiers.includes('once') || !!options.once,
+  }
+}
+
+function bindingId(binding: EventBinding): string {
+  let id = binding.name
+  if (binding.capture) id += ':capture'
+  if (binding.passive) id += ':passive'
+  if (binding.once) id += ':once'
+  return id
+}
+
+function isDelegated(binding: EventBinding): boolean {
+  return delegatedEvents.has(binding.name) && !binding.passive && !binding.once
+}
+
+function listen(el: Element, binding: EventBinding): void {
+  binding.listener = (event: Event) => binding.handler.call(el, event)
+  el.addEventListener(binding.name, binding.listener, {
+    capture: binding.capture,
+    passive: binding.passive,
+    once: binding.once,
+  })
+}
+
+/**
+ * Handle the event prop `key` of el
+ */
+export function setEventProp(el: Element, key: string, value: unknown): void {
+  const binding = parseEventProp(key, value)
+  const bindings = ((el as EventNode).__eventHandlers ||= {})
+  bindings[bindingId(binding)] = binding
+  if (!isDelegated(binding)) listen(el, binding)
+}
+
+/**
+ * Give oldEl the event handlers of newEl, which is thrown away
+ */
+export function patchEvents(oldEl: Element, newEl: Element): void {
+  const oldBindings = (oldEl as EventNode).__eventHandlers || {}
+  const newBindings = (newEl as EventNode).__eventHandlers || {}
+
+  Object.keys(oldBindings).forEach((id) => {
+    const binding = oldBindings[id]
+    if (!newBindings[id] && binding.listener) {
+      oldEl.removeEventListener(binding.name, binding.listener, binding.capture)
+    }
+  })
+
+  Object.keys(newBindings).forEach((id) => {
+    const binding = newBindings[id]
+    if (!binding.listener) return
+    const previous = oldBindings[id]
+    if (previous?.listener) {
+      // The listener already on oldEl calls the new handler
+      previous.handler = binding.handler
+      newBindings[id] = previous
+    } else {
+      listen(oldEl, binding)
+    }
+  })
+
+  if (Object.keys(newBindings).length > 0) {
+    ;(oldEl as EventNode).__eventHandlers = newBindings
+  } else {
+    delete (oldEl as EventNode).__eventHandlers
+  }
+}
+
+/**
+ * Make events reaching node continue to the node parent() returns instead of
+ * its DOM parent
+ */
+export function setLogicalParent(
+  node: Node,
+  parent: (() => Node | null) | undefined
+): void {
+  if (parent) {
+    ;(node as EventNode).__logicalParent = parent
+  } else {
+    delete (node as EventNode).__logicalParent
+  }
+}
+
+/**
+ * Listen for the delegated events at a render root
+ *
+ * @returns Function to stop listening, once every render using root did
+ */
+export function delegateEvents(root: Node): () => void {
+  const count = rootCounts.get(root) || 0
+  rootCounts.set(root, count + 1)
+  if (count === 0) {
+    DELEGATED_EVENTS.forEach((name) => {
+      root.addEventListener(name, dispatchBubble)
+      root.addEventListener(name, dispatchCapture, true)
+    })
+  }
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    const left = (rootCounts.get(root) ?? 1) - 1
+    if (left > 0) {
+      rootCounts.set(root, left)
+      return
+    }
+    rootCounts.delete(root)
+    DELEGATED_EVENTS.forEach((name) => {
+      root.removeEventListener(name, dispatchBubble)
+      root.removeEventListener(name, dispatchCapture, true)
+    })
+  }
+}
+
+function eventPath(event: Event): Node[] {
+  const path: Node[] = []
+  let node = event.target as Node | null
+  while (node) {
+    path.push(node)
+    const logicalParent = (node as EventNode).__logicalParent
+    node = logicalParent ? logicalParent() : node.parentNode
+  }
+  return path
+}
+
+function dispatchBubble(event: Event): void {
+  if (bubbled.has(event)) return
+  bubbled.add(event)
+  dispatch(event, eventPath(event), event.type)
+}
+
+function dispatchCapture(event: Event): void {
+  if (captured.has(event)) return
+  captured.add(event)
+  const path = eventPath(event)
+  dispatch(event, path.slice().reverse(), `${event.type}:capture`)
+
+  // Events that don't bubble (e.g. `new Event('input')` dispatched by a
+  // script) never reach the root again, but still reach their target
+  if (!event.bubbles && !event.cancelBubble && event.target) {
+    const target = event.target
+    const atTarget = (e: Event) => {
+      target.removeEventListener(event.type, atTarget)
+      if (e !== event || bubbled.has(event)) return
+      bubbled.add(event)
+      dispatch(event, [path[0]], event.type)
+    }
+    target.addEventListener(event.type, atTarget)
+  }
+}
+
+function dispatch(event: Event, path: Node[], id: string): void {
+  try {
+    for (const node of path) {
+      const binding = (node as EventNode).__eventHandlers?.[id]
+      if (!binding) continue
+      Object.defineProperty(event, 'currentTarget', {
+        configurable: true,
+        get: () => node,
+      })
+      binding.handler.call(node, event)
+      // stopPropagation() stops it along the path as well
+      if (event.cancelBubble) break
+    }
+  } finally {
+    Reflect.deleteProperty(event, 'currentTarget')
+  }
+}
@@ -8,10 +8,12 @@ export function f(
     props?: any,
     ...children: any[]
 ): FNode {
+    const key: unknown = props?.key
     return {
         type,
         props: props || {},
         children,
-        key: props?.key
+        // A function key is a key selector for the component, e.g. <For key={fn}>
+        key: typeof key === 'function' ? undefined : key,
     }
 }
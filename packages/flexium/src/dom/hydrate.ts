@@ -1,9 +1,27 @@
-import type { FNode, FNodeChild } from './types'
+import type { ComponentMarkers, FNode, FNodeChild } from './types'
 import type { SerializedState } from '../server/types'
 import { runWithComponent, type ComponentInstance } from '../core/hook'
-import { pushContext, popContext } from '../core/context'
-import { unsafeEffect } from '../core/lifecycle'
-import { renderNode, reconcile } from './render'
+import { provideContext, runWithOwner } from '../core/context'
+import {
+  unsafeEffect,
+  effectScope,
+  setEffectOrigin,
+  type EffectScope,
+} from '../core/lifecycle'
+import {
+  render,
+  renderNode,
+  renderOwned,
+  reconcile,
+  bindProp,
+  runWithBindings,
+  outputNodes,
+  type RenderedNode,
+} from './render'
+import { createContainer, elementNamespace } from './namespace'
+import { delegateEvents, isEventProp, setEventProp } from './events'
+import { catchEffectErrors } from '../core/suspense'
+import { collectRendered, queueRendered } from '../core/mount'
 
 // Hydration state
 let isHydrating = false
@@ -36,8 +54,11 @@ interface DOMComponentInstance extends ComponentInstance {
   props: any
   key?: any
   renderFn?: () => void
-  children: Set<DOMComponentInstance>
+  // Hydrated child components, and portals rendered on the client
+  children: Set<{ scope: EffectScope }>
   parentInstance?: DOMComponentInstance
+  scope: EffectScope
+  bindings?: EffectScope
 }
 
 // Registry for hydrated components
@@ -54,12 +75,14 @@ export function getHydrationState(): SerializedState | null {
 
 /**
  * Hydrate server-rendered HTML with client-side interactivity
+ *
+ * @returns Function to stop the hydrated app and clear the container
  */
 export function hydrate(
   app: FNodeChild | (() => FNodeChild),
   container: HTMLElement,
   options: HydrateOptions = {}
-): void {
+): () => void {
   const { state, onHydrated, onMismatch } = options
 
   // Store state for rehydration
@@ -69,6 +92,10 @@ export function hydrate(
   isHydrating = true
   hydrationCursor = container.firstChild
 
+  // Root scope owns every hydrated component instance
+  const scope = effectScope()
+  let mismatched = false
+
   try {
     // Normalize input
     let fnode: FNodeChild
@@ -79,25 +106,36 @@ export function hydrate(
     }
 
     // Hydrate the tree
-    hydrateNode(fnode, container)
-
-    onHydrated?.()
+    collectRendered(() => scope.run(() => hydrateNode(fnode, container)))
   } catch (error) {
-    // Hydration mismatch - fall back to full render
-    console.warn('[Flexium] Hydration mismatch, falling back to full render:', error)
+    // Hydration mismatch - fall back to full render. What was hydrated so
+    // far must stop updating the nodes about to be thrown away.
+    scope.stop()
+    mismatched = true
+    console.warn(
+      '[Flexium] Hydration mismatch, falling back to full render:',
+      error
+    )
     onMismatch?.(error as Error)
-
-    // Clear and re-render
-    container.innerHTML = ''
-    // Import dynamically to avoid circular deps
-    import('./render').then(({ render }) => {
-      render(app, container)
-    })
   } finally {
     isHydrating = false
     hydrationCursor = null
     hydrationState = null
   }
+
+  if (mismatched) {
+    return render(app, container)
+  }
+
+  const stopDelegation = delegateEvents(container)
+  onHydrated?.()
+
+  return () => {
+    scope.stop()
+    stopDelegation()
+    hydratedInstanceRegistry.delete(container)
+    container.innerHTML = ''
+  }
 }
 
 function isFNode(value: any): value is FNode {
@@ -136,7 +174,7 @@ function hydrateNode(fnode: FNodeChild, parent: HTMLElement): Node | Node[] | nu
   // Function (standalone) -> wrap in FNode and hydrate
   if (typeof fnode === 'function') {
     const wrappedFnode: FNode = { type: fnode, props: {}, children: [], key: undefined }
-    return hydrateComponent(wrappedFnode, parent)
+    return hydrateComponent(wrappedFnode, parent, true)
   }
 
   // Object (FNode)
@@ -145,6 +183,10 @@ function hydrateNode(fnode: FNodeChild, parent: HTMLElement): Node | Node[] | nu
       return hydrateElement(fnode)
     }
 
+    if ((fnode.type as ComponentMarkers)._portal) {
+      return renderPortal(fnode, parent)
+    }
+
     if (typeof fnode.type === 'function') {
       return hydrateComponent(fnode, parent)
     }
@@ -153,6 +195,20 @@ function hydrateNode(fnode: FNodeChild, parent: HTMLElement): Node | Node[] | nu
   return null
 }
 
+// The server renders nothing for a portal, so it is rendered on the client
+// at the cursor
+function renderPortal(fnode: FNode, parent: HTMLElement): Node[] {
+  const scope = effectScope()
+  currentHydratingInstance?.children.add({ scope })
+  const fragment = document.createDocumentFragment() as unknown as HTMLElement
+  scope.run(() =>
+    runWithOwner(currentHydratingInstance, () => renderNode(fnode, fragment))
+  )
+  const nodes = Array.from(fragment.childNodes)
+  parent.insertBefore(fragment, hydrationCursor)
+  return nodes
+}
+
 function skipEmptyTextNodes(): void {
   while (
     hydrationCursor &&
@@ -202,6 +258,19 @@ function hydrateElement(fnode: FNode): Node {
     throw new Error(`Hydration mismatch: expected <${tag}>, got <${current.tagName.toLowerCase()}>`)
   }
 
+  // Same namespace a client render would create it in (e.g. <a> inside <svg>)
+  const namespace = elementNamespace(tag, current.parentNode!)
+  if (current.namespaceURI !== namespace) {
+    throw new Error(
+      `Hydration mismatch: expected <${tag}> in ${namespace}, got ${current.namespaceURI}`
+    )
+  }
+
+  if (fnode.key !== undefined && fnode.key !== null) {
+    // Matched by key when the list is reconciled later
+    ;(current as RenderedNode).__key = fnode.key
+  }
+
   // Attach event handlers and refs (don't modify DOM structure)
   if (fnode.props) {
     for (const [key, value] of Object.entries(fnode.props)) {
@@ -211,15 +280,10 @@ function hydrateElement(fnode: FNode): Node {
         } else if (value && typeof value === 'object' && 'current' in value) {
           value.current = current
         }
-      } else if (key.startsWith('on') && typeof value === 'function') {
-        const eventName = key.slice(2).toLowerCase()
-        current.addEventListener(eventName, value as EventListener)
-
-        // Store for reconciliation
-        if (!(current as any).__eventHandlers) {
-          (current as any).__eventHandlers = {}
-        }
-        (current as any).__eventHandlers[eventName] = value
+      } else if (isEventProp(key, value)) {
+        setEventProp(current, key, value)
+      } else if (typeof value === 'function') {
+        bindProp(current, key, value as () => unknown)
       }
     }
   }
@@ -243,24 +307,19 @@ function hydrateElement(fnode: FNode): Node {
   return current
 }
 
-function hydrateComponent(fnode: FNode, parent: HTMLElement): Node | Node[] | null {
-  const Component = fnode.type as Function
+// functionChild: see renderComponent() in render.ts
+function hydrateComponent(
+  fnode: FNode,
+  parent: HTMLElement,
+  functionChild = false
+): Node | Node[] | null {
+  const Component = fnode.type as (props: Record<string, unknown>) => FNodeChild
 
   // Merge props
   const props = { ...fnode.props }
   if (fnode.children && fnode.children.length > 0) {
-    props.children = fnode.children.length === 1
-      ? fnode.children[0]
-      : fnode.children
-  }
-
-  // Handle context providers
-  const contextId = (Component as any)._contextId
-  const isProvider = contextId !== undefined
-  let prevContextValue: any
-
-  if (isProvider) {
-    prevContextValue = pushContext(contextId, props.value)
+    props.children =
+      fnode.children.length === 1 ? fnode.children[0] : fnode.children
   }
 
   // Generate key (same logic as render.ts)
@@ -275,13 +334,15 @@ function hydrateComponent(fnode: FNode, parent: HTMLElement): Node | Node[] | nu
     key = fnode.key
   } else {
     let instanceCount = 0
-    const componentName = (Component as any).name || 'anonymous'
+    const prefix = functionChild
+      ? '__child'
+      : `__auto_${(Component as any).name || 'anonymous'}`
     parentRegistry.forEach((_, k) => {
-      if (typeof k === 'string' && k.startsWith(`__auto_${componentName}_`)) {
+      if (typeof k === 'string' && k.startsWith(`${prefix}_`)) {
         instanceCount++
       }
     })
-    key = `__auto_${componentName}_${instanceCount}`
+    key = `${prefix}_${instanceCount}`
   }
 
   // Create component instance
@@ -294,7 +355,8 @@ function hydrateComponent(fnode: FNode, parent: HTMLElement): Node | Node[] | nu
     props,
     key,
     children: new Set(),
-    parentInstance: currentHydratingInstance || undefined
+    parentInstance: currentHydratingInstance || undefined,
+    scope: effectScope(),
   }
 
   if (currentHydratingInstance) {
@@ -307,28 +369,62 @@ function hydrateComponent(fnode: FNode, parent: HTMLElement): Node | Node[] | nu
   currentHydratingInstance = instance
 
   try {
-    // First render during hydration - just match DOM
-    const result = runWithComponent(instance, () => Component(props))
-    const nodes = hydrateNode(result, parent)
-    instance.nodes = nodes ? (Array.isArray(nodes) ? nodes : [nodes]) : []
-
-    // Set up reactive re-rendering for future updates
     let isFirstRender = true
     const renderFn = () => {
-      // Re-render with reconciliation (same logic as render.ts)
+      collectRendered(() => {
+        const wasFirstRender = isFirstRender
+        instance.scope.run(renderInScope)
+        queueRendered(instance, wasFirstRender)
+      })
+    }
+
+    const renderInScope = () => {
       const currentProps = instance.props
 
+      const contextId = (Component as any)._contextId
+      if (contextId !== undefined) {
+        provideContext(instance, contextId, currentProps.value)
+      }
+
       // Always run the component to establish reactive tracking
-      const result = runWithComponent(instance, () => Component(currentProps))
+      const result = runWithOwner(instance, () =>
+        runWithComponent(instance, () => Component(currentProps))
+      )
+
+      const previousBindings = instance.bindings
+      instance.bindings = effectScope()
 
       if (isFirstRender) {
+        // First render during hydration - just match DOM. State that
+        // descendants change while hydrating (e.g. a suspending resource)
+        // is already tracked and re-renders this component afterwards.
         isFirstRender = false
-        return // Skip DOM manipulation on first render, already done during hydration
+        const nodes = runWithBindings(instance.bindings, () =>
+          hydrateNode(result, parent)
+        )
+        instance.nodes = nodes ? (Array.isArray(nodes) ? nodes : [nodes]) : []
+        if (instance.nodes.length === 0) {
+          // Nothing came from the server; keep the spot like a client render
+          const anchor = document.createTextNode('')
+          parent.insertBefore(anchor, hydrationCursor)
+          instance.nodes = [anchor]
+        }
+        return
       }
 
+      // Re-render with reconciliation (same logic as render.ts)
       if (instance.nodes.length === 0) {
-        const newNodes = renderNode(result, parent)
-        instance.nodes = newNodes ? (Array.isArray(newNodes) ? newNodes : [newNodes]) : []
+        const newNodes = runWithOwner(instance, () =>
+          runWithBindings(instance.bindings!, () =>
+            renderOwned(result, parent, instance)
+          )
+        )
+        instance.nodes = newNodes
+          ? Array.isArray(newNodes)
+            ? newNodes
+            : [newNodes]
+          : []
+        previousBindings?.stop()
         return
       }
 
@@ -336,6 +432,8 @@ function hydrateComponent(fnode: FNode, parent: HTMLElement): Node | Node[] | nu
       const nodeParent = firstNode.parentNode as HTMLElement
 
       if (!nodeParent) {
+        instance.bindings.stop()
+        instance.bindings = previousBindings
         return
       }
 
@@ -347,28 +445,47 @@ function hydrateComponent(fnode: FNode, parent: HTMLElement): Node | Node[] | nu
         nodeParent.appendChild(marker)
       }
 
+      // Client re-renders create fresh instances, so the hydrated
+      // children are replaced and must stop reacting
+      instance.children.forEach((child) => child.scope.stop())
       instance.children.clear()
 
-      const tempContainer = document.createElement('div')
-      const newNodes = renderNode(result, tempContainer, nodeParent)
-      const newNodesArray = newNodes ? (Array.isArray(newNodes) ? newNodes : [newNodes]) : []
-
-      const reconciledNodes = reconcile(instance.nodes, newNodesArray, nodeParent, marker)
+      const tempContainer = createContainer(nodeParent) as HTMLElement
+      // Client components rendered here resolve context through this instance
+      const newNodes = runWithOwner(instance, () =>
+        runWithBindings(instance.bindings!, () =>
+          renderOwned(result, tempContainer, instance)
+        )
+      )
+      const newNodesArray = outputNodes(newNodes, tempContainer)
+
+      const reconciledNodes = reconcile(
+        instance.nodes,
+        newNodesArray,
+        nodeParent,
+        marker
+      )
 
       nodeParent.removeChild(marker)
+      previousBindings?.stop()
 
       instance.nodes = reconciledNodes
     }
 
     instance.renderFn = renderFn
-    unsafeEffect(renderFn)
+    catchEffectErrors(
+      instance,
+      instance.scope,
+      (effect) => effect?.fn === renderFn
+    )
+    instance.scope.run(() => {
+      const { effect } = unsafeEffect(renderFn)
+      effect.name = `<${(Component as any).name || 'anonymous'}>`
+      setEffectOrigin(effect, Component)
+    })
 
     return instance.nodes
   } finally {
     currentHydratingInstance = previousHydratingInstance
-
-    if (isProvider) {
-      popContext(contextId, prevContextValue)
-    }
   }
 }
@@ -3,9 +3,17 @@ export { f } from './f'
 export { render } from './render'
 export { hydrate } from './hydrate'
 export type { HydrateOptions } from './hydrate'
+export type { EventHandlerOptions } from './events'
 
 // Components
 export {
+  For,
+  Show,
+  Switch,
+  Match,
+  Dynamic,
+  Fragment,
+  Portal,
   Suspense,
   ErrorBoundary,
   lazy,
@@ -15,5 +23,12 @@ export type {
   SuspenseProps,
   LazyComponent,
   ErrorInfo,
-  ErrorBoundaryProps
+  ErrorBoundaryProps,
+  ForProps,
+  ShowProps,
+  SwitchProps,
+  MatchProps,
+  DynamicProps,
+  FragmentProps,
+  PortalProps,
 } from './components'
@@ -0,0 +1,59 @@
+export const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml'
+export const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+export const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML'
+
+const XLINK_NAMESPACE = 'http://www.w3.org/1999/xlink'
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace'
+
+/**
+ * Namespace of the elements created as children of parent.
+ * `<foreignObject>` and MathML's `<annotation-xml>` switch back to HTML.
+ */
+export function childNamespace(parent: Node): string {
+  const el = parent as Element
+  if (el.namespaceURI === SVG_NAMESPACE) {
+    return el.localName === 'foreignObject' ? HTML_NAMESPACE : SVG_NAMESPACE
+  }
+  if (el.namespaceURI === MATHML_NAMESPACE) {
+    return el.localName === 'annotation-xml' ? HTML_NAMESPACE : MATHML_NAMESPACE
+  }
+  return HTML_NAMESPACE
+}
+
+/**
+ * Namespace of a `tag` element rendered into parent
+ */
+export function elementNamespace(tag: string, parent: Node): string {
+  if (tag === 'svg') return SVG_NAMESPACE
+  if (tag === 'math') return MATHML_NAMESPACE
+  return childNamespace(parent)
+}
+
+export function createElement(tag: string, parent: Node): Element {
+  const namespace = elementNamespace(tag, parent)
+  return namespace === HTML_NAMESPACE
+    ? document.createElement(tag)
+    : document.createElementNS(namespace, tag)
+}
+
+/**
+ * Detached element to render new output into before it is reconciled
+ * into parent; its children get the namespace they would get in parent
+ */
+export function createContainer(parent: Node): Element {
+  const namespace = childNamespace(parent)
+  if (namespace === SVG_NAMESPACE)
+    return document.createElementNS(namespace, 'g')
+  if (namespace === MATHML_NAMESPACE)
+    return document.createElementNS(namespace, 'mrow')
+  return document.createElement('div')
+}
+
+/**
+ * Namespace of a prefixed attribute such as `xlink:href` or `xml:lang`
+ */
+export function attributeNamespace(name: string): string | null {
+  if (name.startsWith('xlink:')) return XLINK_NAMESPACE
+  if (name.startsWith('xml:')) return XML_NAMESPACE
+  return null
+}
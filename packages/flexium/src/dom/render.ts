@@ -1,31 +1,116 @@
-import { pushContext } from '../core/context'
+import { getOwner, provideContext, runWithOwner } from '../core/context'
 import { runWithComponent, type ComponentInstance } from '../core/hook'
-import { unsafeEffect } from '../core/lifecycle'
+import {
+  unsafeEffect,
+  effectScope,
+  onScopeDispose,
+  setEffectOrigin,
+  type EffectScope,
+} from '../core/lifecycle'
+import { catchEffectErrors } from '../core/suspense'
+import { collectRendered, queueRendered } from '../core/mount'
+import {
+  HTML_NAMESPACE,
+  attributeNamespace,
+  createContainer,
+  createElement,
+} from './namespace'
+import {
+  delegateEvents,
+  isEventProp,
+  patchEvents,
+  setEventProp,
+  setLogicalParent,
+} from './events'
+import type { ComponentMarkers, FNode, FNodeChild } from './types'
+
+type Component = ((props: Record<string, unknown>) => FNodeChild) &
+  ComponentMarkers
+
+interface ComponentFNode extends FNode {
+  type: Component
+}
+
+// Where a portal renders, and what stands in for it where it is rendered
+interface PortalOutput {
+  container: HTMLElement
+  placeholder: Comment
+}
+
+/**
+ * What the renderer keeps on the nodes it creates (or adopts when hydrating)
+ */
+export interface RenderedNode extends Node {
+  // Component whose output the node is
+  __ownerInstance?: DOMComponentInstance
+  // Key of the element's fnode
+  __key?: unknown
+  // Prop bindings updating the element
+  __bindings?: { el: Element }[]
+  // Nodes of a kept component the placeholder stands for
+  __kept?: Node[]
+}
 
 // Extended ComponentInstance for DOM tracking
 interface DOMComponentInstance extends ComponentInstance {
-    nodes: Node[]
-    parent: HTMLElement
-    fnode: any
-    props: any
-    key?: any
-    renderFn?: () => void
-    children: Set<DOMComponentInstance>
-    parentInstance?: DOMComponentInstance
+  nodes: Node[]
+  parent: HTMLElement
+  fnode: ComponentFNode
+  props: Record<string, unknown>
+  key?: unknown
+  renderFn?: () => void
+  children: Set<DOMComponentInstance>
+  parentInstance?: DOMComponentInstance
+  // Owner of the registry the instance is kept in
+  registryParent: object
+  scope: EffectScope
+  // Owns the prop bindings of the last render pass
+  bindings?: EffectScope
+  // Set for portals
+  portal?: PortalOutput
 }
 
-// Registry to store component instances by parent and key
-const instanceRegistry = new WeakMap<HTMLElement, Map<any, DOMComponentInstance>>()
+// Registry to store component instances by key, per owning component (or
+// per container for components rendered at the root)
+const instanceRegistry = new WeakMap<
+  object,
+  Map<unknown, DOMComponentInstance>
+>()
+
+// Unkeyed components are told apart by type and order within one render of
+// their owner
+const autoKeyCounts = new WeakMap<object, Map<string, number>>()
 
 // Current rendering component instance (for tracking parent-child relationships)
 let currentRenderingInstance: DOMComponentInstance | null = null
 
+// Scope owning the prop bindings created by the render pass in progress
+let currentBindingScope: EffectScope | undefined
+
+// Components rendered directly for an owner outside the renderer (a
+// hydrated component), by owner, and those of the pass in progress
+const ownedChildren = new WeakMap<object, Set<DOMComponentInstance>>()
+let currentOwnedChildren: Set<DOMComponentInstance> | undefined
+
+// Stop everything the instance owns (render effect, use() effects and
+// cleanups, child component scopes) and forget it in the registry
+function disposeComponentInstance(instance: DOMComponentInstance): void {
+  instance.scope.stop()
+
+  const registry = instanceRegistry.get(instance.registryParent)
+  if (registry && registry.get(instance.key) === instance) {
+    registry.delete(instance.key)
+  }
+}
+
 // Recursively remove component instance and all its children
 function removeComponentInstance(instance: DOMComponentInstance): void {
     instance.children.forEach(child => {
         removeComponentInstance(child)
     })
 
+    disposeComponentInstance(instance)
+
     instance.nodes.forEach(node => {
         if (node.parentNode) {
             node.parentNode.removeChild(node)
@@ -39,146 +124,360 @@ function removeComponentInstance(instance: DOMComponentInstance): void {
     }
 }
 
-// Render a function component with reactive re-rendering
-function renderComponent(fnode: any, parent: HTMLElement, registryParent?: HTMLElement): Node[] {
-    const effectiveRegistryParent = registryParent || parent
-
-    const mergeProps = (node: any) => {
-        const props = { ...node.props }
-        if (node.children && node.children.length > 0) {
-            props.children = node.children.length === 1
-                ? node.children[0]
-                : node.children
-        }
-        return props
+// Ancestors rendering this component list the same nodes among their own;
+// keep them pointing at what is actually in the DOM
+function replaceAncestorNodes(
+  instance: DOMComponentInstance,
+  oldNodes: Node[],
+  newNodes: Node[]
+): void {
+  // A component rendering a single component shares its nodes array, so
+  // splicing one ancestor may update the next ones (and oldNodes) too
+  const replaced = oldNodes.slice()
+  const updated = new Set<Node[]>()
+  let ancestor = instance.parentInstance
+  while (ancestor) {
+    if (!updated.has(ancestor.nodes)) {
+      const start = ancestor.nodes.indexOf(replaced[0])
+      if (start === -1) break
+      ancestor.nodes.splice(start, replaced.length, ...newNodes)
+      updated.add(ancestor.nodes)
     }
+    ancestor = ancestor.parentInstance
+  }
+}
 
-    const hasExplicitKey = fnode.key !== undefined
-
-    if (!instanceRegistry.has(effectiveRegistryParent)) {
-        instanceRegistry.set(effectiveRegistryParent, new Map())
+// Render a function component with reactive re-rendering
+/**
+ * @param functionChild Whether fnode wraps a function child, which takes
+ * its position among the other function children rather than components
+ */
+function renderComponent(
+  fnode: ComponentFNode,
+  parent: HTMLElement,
+  registryParent?: HTMLElement,
+  functionChild = false
+): Node[] {
+  // Children of a component are found again in its registry wherever they
+  // sit in its DOM, so they keep their state when the parent re-renders
+  const effectiveRegistryParent: object =
+    currentRenderingInstance || registryParent || parent
+
+  const mergeProps = (node: FNode) => {
+    const props: Record<string, unknown> = { ...node.props }
+    if (node.children && node.children.length > 0) {
+      props.children =
+        node.children.length === 1 ? node.children[0] : node.children
+    }
+    return props
+  }
+
+  const hasExplicitKey = fnode.key !== undefined
+
+  let parentRegistry = instanceRegistry.get(effectiveRegistryParent)
+  if (!parentRegistry) {
+    parentRegistry = new Map()
+    instanceRegistry.set(effectiveRegistryParent, parentRegistry)
+  }
+
+  let key: unknown
+  if (hasExplicitKey) {
+    key = fnode.key
+  } else {
+    // Function children count apart, so they never take over the state
+    // of an anonymous component (or the other way round) when reordered
+    const prefix = functionChild
+      ? '__child'
+      : `__auto_${fnode.type.name || 'anonymous'}`
+    let counts = autoKeyCounts.get(effectiveRegistryParent)
+    if (!counts) {
+      counts = new Map<string, number>()
+      autoKeyCounts.set(effectiveRegistryParent, counts)
     }
-    const parentRegistry = instanceRegistry.get(effectiveRegistryParent)!
+    const instanceCount = counts.get(prefix) || 0
+    counts.set(prefix, instanceCount + 1)
+    key = `${prefix}_${instanceCount}`
+  }
+
+  const existing = parentRegistry.get(key)
+  if (existing) {
+    const instance = existing
+    const previousProps = instance.props
+    instance.fnode = fnode
+    const newProps = mergeProps(fnode)
+    instance.props = newProps
 
-    let key: any
-    if (hasExplicitKey) {
-        key = fnode.key
+    if (currentRenderingInstance) {
+      currentRenderingInstance.children.add(instance)
     } else {
-        let instanceCount = 0
-        const componentName = fnode.type.name || 'anonymous'
-        parentRegistry.forEach((_, k) => {
-            if (typeof k === 'string' && k.startsWith(`__auto_${componentName}_`)) {
-                instanceCount++
-            }
-        })
-        key = `__auto_${componentName}_${instanceCount}`
+      currentOwnedChildren?.add(instance)
     }
 
-    if (parentRegistry.has(key)) {
-        const instance = parentRegistry.get(key)!
-        instance.fnode = fnode
-        const newProps = mergeProps(fnode)
-        instance.props = newProps
-        instance.children.clear()
-
-        if (instance.renderFn) {
-            instance.renderFn()
-        }
-
-        return instance.nodes
+    // Components may skip re-rendering for props they consider equal
+    // (e.g. the rows of <For>)
+    const arePropsEqual = fnode.type._arePropsEqual
+    if (
+      instance.renderFn &&
+      !(arePropsEqual && arePropsEqual(previousProps, newProps))
+    ) {
+      instance.renderFn()
     }
 
-    const instance: DOMComponentInstance = {
-        hooks: [],
-        hookIndex: 0,
-        nodes: [],
-        parent,
-        fnode: fnode,
-        props: mergeProps(fnode),
-        key,
-        children: new Set(),
-        parentInstance: currentRenderingInstance || undefined
+    if (instance.portal) {
+      return placePortal(instance.portal, parent, instance.props.target)
     }
-
-    if (currentRenderingInstance) {
-        currentRenderingInstance.children.add(instance)
+    keepInPlace(instance.nodes, parent)
+    return instance.nodes
+  }
+
+  const instance: DOMComponentInstance = {
+    hooks: [],
+    hookIndex: 0,
+    nodes: [],
+    parent,
+    fnode: fnode,
+    props: mergeProps(fnode),
+    key,
+    children: new Set(),
+    // Rendered outside a component (e.g. by render() called in one):
+    // context still flows from the component that started the render
+    parentInstance:
+      currentRenderingInstance ||
+      (getOwner() as DOMComponentInstance | null) ||
+      undefined,
+    registryParent: effectiveRegistryParent,
+    // Owned by the scope currently rendering (parent component or render root)
+    scope: effectScope(),
+  }
+
+  if (currentRenderingInstance) {
+    currentRenderingInstance.children.add(instance)
+  } else {
+    currentOwnedChildren?.add(instance)
+  }
+
+  parentRegistry.set(key, instance)
+
+  if (fnode.type._portal) {
+    instance.portal = createPortal(instance)
+  }
+  const outputParent = instance.portal ? instance.portal.container : parent
+
+  let isFirstRender = true
+
+  const renderFn = () => {
+    collectRendered(() => instance.scope.run(renderInScope))
+  }
+
+  const renderInScope = () => {
+    const currentFnode = instance.fnode
+    const currentProps = instance.props
+
+    const contextId = currentFnode.type._contextId
+    if (contextId !== undefined) {
+      provideContext(instance, contextId, currentProps.value)
     }
 
-    parentRegistry.set(key, instance)
-
-    let isFirstRender = true
-
-    const renderFn = () => {
-        const currentFnode = instance.fnode
-        const currentProps = instance.props
-
-        const isProvider = (currentFnode.type as any)._contextId !== undefined
-        if (isProvider) {
-            pushContext((currentFnode.type as any)._contextId, currentProps.value)
+    const previousRenderingInstance = currentRenderingInstance
+    currentRenderingInstance = instance
+    const wasFirstRender = isFirstRender
+    try {
+      renderOutput(currentFnode, currentProps)
+      queueRendered(instance, wasFirstRender)
+    } finally {
+      // Restored even when the component throws, so the next job in
+      // the flush doesn't render into this instance
+      currentRenderingInstance = previousRenderingInstance
+    }
+  }
+
+  const renderOutput = (
+    currentFnode: ComponentFNode,
+    currentProps: Record<string, unknown>
+  ) => {
+    autoKeyCounts.delete(instance)
+    const result = runWithOwner(instance, () =>
+      runWithComponent(instance, () => currentFnode.type(currentProps))
+    )
+
+    if (!isFirstRender && patchText(result)) return
+
+    const previousBindings = instance.bindings
+    instance.bindings = effectScope()
+
+    if (isFirstRender) {
+      const newNodes = runWithBindings(instance.bindings, () =>
+        renderNode(result, outputParent)
+      )
+      instance.nodes = outputNodes(newNodes, outputParent)
+      instance.nodes.forEach((node: RenderedNode) => {
+        if (!node.__ownerInstance) {
+          node.__ownerInstance = instance
         }
-
-        const previousRenderingInstance = currentRenderingInstance
-        currentRenderingInstance = instance
-
-        const result = runWithComponent(instance, () => currentFnode.type(currentProps))
-
-        if (isFirstRender) {
-            const newNodes = renderNode(result, parent)
-            instance.nodes = newNodes ? (Array.isArray(newNodes) ? newNodes : [newNodes]) : []
-            instance.nodes.forEach(node => {
-                if (!(node as any).__ownerInstance) {
-                    (node as any).__ownerInstance = instance
-                }
-            })
-            isFirstRender = false
-        } else {
-            if (instance.nodes.length === 0) {
-                const newNodes = renderNode(result, parent)
-                instance.nodes = newNodes ? (Array.isArray(newNodes) ? newNodes : [newNodes]) : []
-                currentRenderingInstance = previousRenderingInstance
-                return
-            }
-
-            const firstNode = instance.nodes[0]
-            const nodeParent = firstNode.parentNode as HTMLElement
-
-            if (!nodeParent) {
-                currentRenderingInstance = previousRenderingInstance
-                return
-            }
-
-            const marker = document.createComment('flexium-marker')
-            const lastNode = instance.nodes[instance.nodes.length - 1]
-            if (lastNode.nextSibling) {
-                nodeParent.insertBefore(marker, lastNode.nextSibling)
-            } else {
-                nodeParent.appendChild(marker)
-            }
-
-            instance.children.clear()
-
-            const tempContainer = document.createElement('div')
-            const newNodes = renderNode(result, tempContainer, nodeParent)
-            const newNodesArray = newNodes ? (Array.isArray(newNodes) ? newNodes : [newNodes]) : []
-
-            const reconciledNodes = reconcile(instance.nodes, newNodesArray, nodeParent, marker)
-
-            nodeParent.removeChild(marker)
-
-            instance.nodes = reconciledNodes
+      })
+      isFirstRender = false
+    } else {
+      if (instance.nodes.length === 0) {
+        const newNodes = runWithBindings(instance.bindings, () =>
+          renderNode(result, outputParent)
+        )
+        instance.nodes = newNodes
+          ? Array.isArray(newNodes)
+            ? newNodes
+            : [newNodes]
+          : []
+        previousBindings?.stop()
+        return
+      }
+
+      const firstNode = instance.nodes[0]
+      const nodeParent = firstNode.parentNode as HTMLElement
+
+      if (!nodeParent) {
+        instance.bindings.stop()
+        instance.bindings = previousBindings
+        return
+      }
+
+      const marker = document.createComment('flexium-marker')
+      const lastNode = instance.nodes[instance.nodes.length - 1]
+      if (lastNode.nextSibling) {
+        nodeParent.insertBefore(marker, lastNode.nextSibling)
+      } else {
+        nodeParent.appendChild(marker)
+      }
+
+      const previousChildren = new Set(instance.children)
+      instance.children.clear()
+
+      const tempContainer = createContainer(nodeParent) as HTMLElement
+      const newNodes = runWithBindings(instance.bindings, () =>
+        renderNode(result, tempContainer, nodeParent)
+      )
+      const newNodesArray = outputNodes(newNodes, tempContainer)
+
+      const reconciledNodes = reconcile(
+        instance.nodes,
+        newNodesArray,
+        nodeParent,
+        marker
+      )
+
+      nodeParent.removeChild(marker)
+      // Reused elements now run the new bindings
+      previousBindings?.stop()
+
+      replaceAncestorNodes(instance, instance.nodes, reconciledNodes)
+      instance.nodes = reconciledNodes
+
+      // Children not rendered this pass are gone; their DOM has already
+      // been reconciled away, so only their effects need stopping
+      previousChildren.forEach((child) => {
+        if (!instance.children.has(child)) {
+          disposeComponentInstance(child)
         }
-
-        currentRenderingInstance = previousRenderingInstance
+      })
+    }
+  }
+
+  // A component that rendered text and renders text again (e.g. the
+  // function child `{() => count}`) only updates its text node
+  const patchText = (result: FNodeChild): boolean => {
+    const node = instance.nodes[0]
+    if (
+      typeof result === 'object' ||
+      typeof result === 'function' ||
+      instance.children.size > 0 ||
+      instance.nodes.length !== 1 ||
+      node.nodeType !== Node.TEXT_NODE
+    ) {
+      return false
     }
+    const text =
+      result === undefined || typeof result === 'boolean' ? '' : String(result)
+    if (node.nodeValue !== text) node.nodeValue = text
+    return true
+  }
+
+  instance.renderFn = renderFn
+
+  catchEffectErrors(
+    instance,
+    instance.scope,
+    (effect) => effect?.fn === renderFn
+  )
+  instance.scope.run(() => {
+    const { effect } = unsafeEffect(renderFn)
+    effect.name = `<${fnode.type.name || 'anonymous'}>`
+    setEffectOrigin(effect, fnode.type)
+  })
+
+  if (instance.portal) {
+    return placePortal(instance.portal, parent, instance.props.target)
+  }
+  return instance.nodes
+}
 
-    instance.renderFn = renderFn
+/**
+ * Output nodes of a component. One that renders nothing keeps an empty text
+ * node in its place, so its own re-renders know where their output goes.
+ */
+export function outputNodes(nodes: Node | Node[] | null, parent: Node): Node[] {
+  const list = nodes ? (Array.isArray(nodes) ? nodes : [nodes]) : []
+  if (list.length > 0) return list
+  const anchor = document.createTextNode('')
+  parent.appendChild(anchor)
+  return [anchor]
+}
 
-    unsafeEffect(renderFn)
+// A portal renders into a container of its own, appended to its target, and
+// leaves a placeholder in its parent. The container is a render root for
+// events, which continue from the placeholder, and goes when the portal is
+// removed.
+function createPortal(instance: DOMComponentInstance): PortalOutput {
+  const container = document.createElement('div')
+  container.setAttribute('data-flexium-portal', '')
+  const placeholder = document.createComment('flexium-portal')
+  setLogicalParent(container, () => placeholder)
+  const stopEvents = delegateEvents(container)
+  instance.scope.run(() =>
+    onScopeDispose(() => {
+      stopEvents()
+      container.remove()
+    })
+  )
+  return { container, placeholder }
+}
 
-    return instance.nodes
+// Move the container into the (possibly changed) target and put the
+// placeholder into parent
+function placePortal(portal: PortalOutput, parent: Node, to: unknown): Node[] {
+  const { container, placeholder } = portal
+  const target = to ?? document.body
+  const targetEl =
+    typeof target === 'string'
+      ? document.querySelector(target)
+      : (target as Element | null)
+  if (!targetEl) {
+    console.warn('[Flexium Portal] Target container not found:', target)
+    container.remove()
+  } else if (container.parentNode !== targetEl) {
+    targetEl.appendChild(container)
+  }
+
+  if (placeholder.parentNode) {
+    keepInPlace([placeholder], parent)
+  } else {
+    parent.appendChild(placeholder)
+  }
+  return [placeholder]
 }
 
-export function renderNode(fnode: any, parent: HTMLElement, registryParent?: HTMLElement): Node | Node[] | null {
+export function renderNode(
+    fnode: FNodeChild,
+    parent: HTMLElement,
+    registryParent?: HTMLElement
+): Node | Node[] | null {
     const effectiveRegistryParent = registryParent || parent
 
     if (fnode === null || fnode === undefined || typeof fnode === 'boolean') {
@@ -193,12 +492,22 @@ export function renderNode(fnode: any, parent: HTMLElement, registryParent?: HTM
         return node
     }
 
+    // A function child is a component of its own, so only it re-runs when
+    // the state it reads changes
+    if (typeof fnode === 'function') {
+        return renderComponent(
+            { type: fnode, props: {}, children: [], key: undefined },
+            parent,
+            registryParent,
+            true
+        )
+    }
+
     if (Array.isArray(fnode)) {
-        const oldKeysSet = new Set<any>()
-        if (instanceRegistry.has(effectiveRegistryParent)) {
-            const parentRegistry = instanceRegistry.get(effectiveRegistryParent)!
-            parentRegistry.forEach((_, key) => oldKeysSet.add(key))
-        }
+        const oldKeysSet = new Set<unknown>()
+        instanceRegistry
+            .get(effectiveRegistryParent)
+            ?.forEach((_, key) => oldKeysSet.add(key))
 
         const nodes: Node[] = []
         fnode.forEach((child) => {
@@ -212,17 +521,14 @@ export function renderNode(fnode: any, parent: HTMLElement, registryParent?: HTM
             }
         })
 
-        const newKeysSet = new Set<any>()
-        if (instanceRegistry.has(effectiveRegistryParent)) {
-            const parentRegistry = instanceRegistry.get(effectiveRegistryParent)!
-            parentRegistry.forEach((_, key) => newKeysSet.add(key))
-        }
+        const parentRegistry = instanceRegistry.get(effectiveRegistryParent)
+        const newKeysSet = new Set<unknown>()
+        parentRegistry?.forEach((_, key) => newKeysSet.add(key))
 
-        if (instanceRegistry.has(effectiveRegistryParent)) {
-            const parentRegistry = instanceRegistry.get(effectiveRegistryParent)!
-            const keysToRemove: any[] = []
+        if (parentRegistry) {
+            const keysToRemove: unknown[] = []
 
-            oldKeysSet.forEach(key => {
+            oldKeysSet.forEach((key) => {
                 if (!newKeysSet.has(key)) {
                     const instance = parentRegistry.get(key)
                     if (instance) {
@@ -232,7 +538,7 @@ export function renderNode(fnode: any, parent: HTMLElement, registryParent?: HTM
                 }
             })
 
-            keysToRemove.forEach(key => parentRegistry.delete(key))
+            keysToRemove.forEach((key) => parentRegistry.delete(key))
         }
 
         return nodes
@@ -240,34 +546,41 @@ export function renderNode(fnode: any, parent: HTMLElement, registryParent?: HTM
 
     if (typeof fnode === 'object') {
         if (typeof fnode.type === 'string') {
-            const dom = document.createElement(fnode.type)
+            // SVG and MathML subtrees are created in their namespace
+            const dom = createElement(fnode.type, parent) as HTMLElement
+            if (fnode.key !== undefined && fnode.key !== null) {
+                // Matched by key against the previous render's elements
+                ;(dom as RenderedNode).__key = fnode.key
+            }
 
             if (fnode.props) {
-                Object.entries(fnode.props).forEach(([key, value]) => {
+                Object.entries<unknown>(fnode.props).forEach(([key, value]) => {
                     if (key === 'ref') {
                         // Handle both callback refs and RefObject
                         if (typeof value === 'function') {
-                            value(dom)
-                        } else if (value && typeof value === 'object' && 'current' in value) {
+                            ;(value as (el: HTMLElement) => void)(dom)
+                        } else if (
+                            value &&
+                            typeof value === 'object' &&
+                            'current' in value
+                        ) {
                             value.current = dom
                         }
-                    } else if (key.startsWith('on') && typeof value === 'function') {
-                        const eventName = key.slice(2).toLowerCase()
-                        dom.addEventListener(eventName, value as EventListener)
-
-                        if (!(dom as any).__eventHandlers) {
-                            (dom as any).__eventHandlers = {}
-                        }
-                        (dom as any).__eventHandlers[eventName] = value
-                    } else if (key !== 'ref') {
+                    } else if (isEventProp(key, value)) {
+                        setEventProp(dom, key, value)
+                    } else if (typeof value === 'function') {
+                        bindProp(dom, key, value as () => unknown)
+                    } else {
                         setAttribute(dom, key, value)
                     }
                 })
             }
 
             if (fnode.children && fnode.children.length > 0) {
-                fnode.children.forEach((child: any) => {
-                    renderNode(child, dom)
+                fnode.children.forEach((child) => {
+                    // Components outside any component stay in the
+                    // registry given, if any (see renderOwned())
+                    renderNode(child, dom, registryParent)
                 })
             }
 
@@ -276,81 +589,135 @@ export function renderNode(fnode: any, parent: HTMLElement, registryParent?: HTM
         }
 
         if (typeof fnode.type === 'function') {
-            return renderComponent(fnode, parent, registryParent)
+            return renderComponent(
+                fnode as ComponentFNode,
+                parent,
+                registryParent
+            )
         }
     }
 
     return null
 }
 
-function setAttribute(el: Element, key: string, value: any) {
-    if (value === null || value === undefined) {
-        el.removeAttribute(key)
-    } else if (key === 'style' && typeof value === 'object') {
-        Object.assign((el as HTMLElement).style, value)
-    } else if (key === 'class') {
-        el.className = String(value)
-    } else if (key in el && typeof (el as any)[key] !== 'function') {
-        (el as any)[key] = value
+/**
+ * Keep a prop of el up to date with getter in an effect of its own, so a
+ * change only touches this one attribute. Owned by the render pass in
+ * progress; reconciliation moves it to the element that is kept.
+ */
+export function bindProp(
+  el: Element,
+  key: string,
+  getter: () => unknown
+): void {
+  const binding = { el }
+  const create = () => {
+    const { effect } = unsafeEffect(() =>
+      setAttribute(binding.el, key, getter())
+    )
+    effect.name = `${el.localName}.${key}`
+    setEffectOrigin(effect, getter)
+  }
+  if (currentBindingScope) {
+    currentBindingScope.run(create)
+  } else {
+    create()
+  }
+  ;((el as RenderedNode).__bindings ||= []).push(binding)
+}
+
+/**
+ * Run fn with the prop bindings it creates owned by scope
+ */
+export function runWithBindings<T>(scope: EffectScope, fn: () => T): T {
+  const previous = currentBindingScope
+  currentBindingScope = scope
+  try {
+    return fn()
+  } finally {
+    currentBindingScope = previous
+  }
+}
+
+function setAttribute(el: Element, key: string, value: unknown) {
+  const namespace = attributeNamespace(key)
+  const isHTML = el.namespaceURI === HTML_NAMESPACE
+  if (value === null || value === undefined || (value === false && !isHTML)) {
+    if (namespace) {
+      el.removeAttributeNS(namespace, key.slice(key.indexOf(':') + 1))
     } else {
-        el.setAttribute(key, String(value))
+      el.removeAttribute(key)
     }
+  } else if (key === 'style' && typeof value === 'object') {
+    Object.assign((el as HTMLElement).style, value)
+  } else if (namespace) {
+    el.setAttributeNS(namespace, key, String(value))
+  } else if (!isHTML) {
+    // SVG and MathML properties are read-only (viewBox, className) or
+    // differ from the attribute, so always set the attribute
+    el.setAttribute(key, value === true ? '' : String(value))
+  } else if (key === 'class') {
+    el.className = String(value)
+  } else if (key in el && typeof Reflect.get(el, key) !== 'function') {
+    ;(el as unknown as Record<string, unknown>)[key] = value
+  } else {
+    el.setAttribute(key, String(value))
+  }
 }
 
 // Reconciliation helpers
 function canReuse(oldNode: Node, newNode: Node): boolean {
     if (oldNode.nodeType !== newNode.nodeType) return false
     if (oldNode.nodeType === Node.ELEMENT_NODE && newNode.nodeType === Node.ELEMENT_NODE) {
-        return (oldNode as Element).tagName === (newNode as Element).tagName
+        return (
+            (oldNode as Element).namespaceURI ===
+                (newNode as Element).namespaceURI &&
+            (oldNode as Element).localName === (newNode as Element).localName
+        )
     }
     return true
 }
 
 function updateAttributes(oldEl: Element, newEl: Element): void {
     const oldAttrs = Array.from(oldEl.attributes)
+    // Namespace-aware, so xlink:href and friends keep their namespace
     oldAttrs.forEach(attr => {
-        if (!newEl.hasAttribute(attr.name)) {
-            oldEl.removeAttribute(attr.name)
+        if (!newEl.hasAttributeNS(attr.namespaceURI, attr.localName)) {
+            oldEl.removeAttributeNS(attr.namespaceURI, attr.localName)
         }
     })
 
     const newAttrs = Array.from(newEl.attributes)
     newAttrs.forEach(attr => {
-        if (oldEl.getAttribute(attr.name) !== attr.value) {
+        if (
+            oldEl.getAttributeNS(attr.namespaceURI, attr.localName) !==
+            attr.value
+        ) {
             if (attr.name === 'value' && 'value' in oldEl) {
-                (oldEl as HTMLInputElement).value = attr.value
+                ;(oldEl as HTMLInputElement).value = attr.value
             } else if (attr.name === 'checked' && 'checked' in oldEl) {
-                (oldEl as HTMLInputElement).checked = attr.value === 'true' || attr.value === ''
+                ;(oldEl as HTMLInputElement).checked =
+                    attr.value === 'true' || attr.value === ''
             } else {
-                oldEl.setAttribute(attr.name, attr.value)
+                oldEl.setAttributeNS(attr.namespaceURI, attr.name, attr.value)
             }
         }
     })
 
-    const oldHandlers = (oldEl as any).__eventHandlers || {}
-    const newHandlers = (newEl as any).__eventHandlers || {}
-
-    Object.keys(oldHandlers).forEach(event => {
-        if (!newHandlers[event]) {
-            oldEl.removeEventListener(event, oldHandlers[event])
-        }
-    })
-
-    Object.keys(newHandlers).forEach(event => {
-        if (oldHandlers[event] !== newHandlers[event]) {
-            if (oldHandlers[event]) {
-                oldEl.removeEventListener(event, oldHandlers[event])
-            }
-            oldEl.addEventListener(event, newHandlers[event])
-        }
-    })
-
-    if (Object.keys(newHandlers).length > 0) {
-        (oldEl as any).__eventHandlers = newHandlers
+    // Bindings follow the element that is kept; the old element's ones are
+    // stopped with their render pass
+    const bindings = (newEl as RenderedNode).__bindings
+    if (bindings) {
+        bindings.forEach((binding) => {
+            binding.el = oldEl
+        })
+        ;(oldEl as RenderedNode).__bindings = bindings
     } else {
-        delete (oldEl as any).__eventHandlers
+        delete (oldEl as RenderedNode).__bindings
     }
 
+    patchEvents(oldEl, newEl)
+
     if (oldEl instanceof HTMLInputElement && newEl instanceof HTMLInputElement) {
         if (oldEl.value !== newEl.value) {
             oldEl.value = newEl.value
@@ -372,104 +739,295 @@ function updateAttributes(oldEl: Element, newEl: Element): void {
 }
 
 function reconcileChildren(oldEl: Element, newEl: Element): void {
-    const oldChildren = Array.from(oldEl.childNodes)
-    const newChildren = Array.from(newEl.childNodes)
-    const maxLen = Math.max(oldChildren.length, newChildren.length)
-
-    for (let i = 0; i < maxLen; i++) {
-        const oldChild = oldChildren[i]
-        const newChild = newChildren[i]
-
-        if (!oldChild && newChild) {
-            oldEl.appendChild(newChild)
-        } else if (oldChild && !newChild) {
-            oldEl.removeChild(oldChild)
-        } else if (oldChild && newChild) {
-            patchNode(oldChild, newChild, oldEl)
-        }
-    }
+  patchList(
+    Array.from(oldEl.childNodes),
+    Array.from(newEl.childNodes),
+    oldEl,
+    null
+  )
 }
 
-function patchNode(oldNode: Node, newNode: Node, parent: Element): void {
-    if (canReuse(oldNode, newNode)) {
-        const ownerInstance = (newNode as any).__ownerInstance as DOMComponentInstance | undefined
-        if (ownerInstance) {
-            const idx = ownerInstance.nodes.indexOf(newNode)
-            if (idx !== -1) {
-                ownerInstance.nodes[idx] = oldNode
-            }
-            ; (oldNode as any).__ownerInstance = ownerInstance
-            delete (newNode as any).__ownerInstance
-        }
+// Bring oldNode up to date with newNode, which is thrown away
+function patchNode(oldNode: RenderedNode, newNode: RenderedNode): void {
+  const ownerInstance = newNode.__ownerInstance
+  if (ownerInstance) {
+    const idx = ownerInstance.nodes.indexOf(newNode)
+    if (idx !== -1) {
+      ownerInstance.nodes[idx] = oldNode
+    }
+    oldNode.__ownerInstance = ownerInstance
+    delete newNode.__ownerInstance
+  }
 
-        if (oldNode.nodeType === Node.TEXT_NODE) {
-            if (oldNode.nodeValue !== newNode.nodeValue) {
-                oldNode.nodeValue = newNode.nodeValue
-            }
-        } else if (oldNode.nodeType === Node.ELEMENT_NODE) {
-            updateAttributes(oldNode as Element, newNode as Element)
-            reconcileChildren(oldNode as Element, newNode as Element)
-        }
-    } else {
-        // Ensure oldNode is actually a child of parent before replacing
-        if (oldNode.parentNode === parent) {
-            parent.replaceChild(newNode, oldNode)
-        } else if (oldNode.parentNode) {
-            // oldNode is attached to a different parent, remove it and insert newNode
-            oldNode.parentNode.removeChild(oldNode)
-            parent.insertBefore(newNode, null)
-        } else {
-            // oldNode is detached, just insert newNode
-            parent.insertBefore(newNode, null)
-        }
+  if (oldNode.nodeType === Node.TEXT_NODE) {
+    if (oldNode.nodeValue !== newNode.nodeValue) {
+      oldNode.nodeValue = newNode.nodeValue
     }
+  } else if (oldNode.nodeType === Node.ELEMENT_NODE) {
+    updateAttributes(oldNode as Element, newNode as Element)
+    reconcileChildren(oldNode as Element, newNode as Element)
+  }
 }
 
-export function reconcile(oldNodes: Node[], newNodes: Node[], parent: Node, beforeMarker: Node): Node[] {
-    const maxLen = Math.max(oldNodes.length, newNodes.length)
-    const resultNodes: Node[] = []
+// A kept component rendered inside a new (detached) element leaves its nodes
+// where they are, in the live DOM; a placeholder marks their spot until
+// reconciliation puts them there
+function keepInPlace(nodes: Node[], parent: Node): void {
+  if (!nodes.length || nodes[0].parentNode === parent) return
+  if (parent.isConnected) {
+    nodes.forEach((node) => parent.appendChild(node))
+    return
+  }
+  const placeholder: Comment & RenderedNode =
+    document.createComment('flexium-kept')
+  placeholder.__kept = nodes
+  parent.appendChild(placeholder)
+}
 
-    for (let i = 0; i < maxLen; i++) {
-        const oldNode = oldNodes[i]
-        const newNode = newNodes[i]
+function expandKept(nodes: RenderedNode[]): Node[] {
+  if (!nodes.some((node) => node.__kept)) return nodes
+  return nodes.flatMap((node) => node.__kept || node)
+}
 
-        if (!oldNode && newNode) {
-            parent.insertBefore(newNode, beforeMarker)
-            resultNodes.push(newNode)
-        } else if (oldNode && !newNode) {
-            if (oldNode.parentNode) {
-                parent.removeChild(oldNode)
-            }
-        } else if (oldNode && newNode) {
-            patchNode(oldNode, newNode, parent as Element)
-            resultNodes.push(oldNode)
-        }
-    }
+// Swap the placeholders inside a new subtree for the kept nodes
+function placeKept(root: Node): void {
+  if (root.nodeType !== Node.ELEMENT_NODE || !root.firstChild) return
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_COMMENT)
+  const placeholders: { comment: Comment; kept: Node[] }[] = []
+  while (walker.nextNode()) {
+    const kept = (walker.currentNode as RenderedNode).__kept
+    if (kept)
+      placeholders.push({ comment: walker.currentNode as Comment, kept })
+  }
+  placeholders.forEach(({ comment, kept }) => {
+    comment.before(...kept)
+    comment.remove()
+  })
+}
 
-    return resultNodes
+function nodeKey(node: RenderedNode): unknown {
+  return node.__key
 }
 
-export function render(app: any, container: HTMLElement): () => void {
-    container.innerHTML = ''
+/**
+ * Turn the old nodes of parent into the new ones, inserting before anchor.
+ *
+ * Nodes found in both lists (output of kept components) and elements with
+ * the same key are reused; other nodes are patched by position among the
+ * unkeyed ones. Reused nodes only move when they are not part of the longest
+ * increasing subsequence of old positions, so the DOM sees the fewest moves.
+ *
+ * @returns The nodes now in the DOM, in order
+ */
+function patchList(
+  oldNodes: Node[],
+  newNodes: Node[],
+  parent: Node,
+  anchor: Node | null
+): Node[] {
+  newNodes = expandKept(newNodes)
+  // Nodes already taken elsewhere (e.g. by a kept component that moved)
+  // are not ours to reuse
+  oldNodes = oldNodes.filter((node) => node.parentNode === parent)
+
+  const oldIndex = new Map<Node, number>()
+  const oldByKey = new Map<unknown, number>()
+  oldNodes.forEach((node, i) => {
+    oldIndex.set(node, i)
+    const key = nodeKey(node)
+    if (key !== undefined) oldByKey.set(key, i)
+  })
+
+  const claimed = new Array<boolean>(oldNodes.length).fill(false)
+  // Position in oldNodes of the node reused for each new node, -1 if inserted
+  const sources = new Array<number>(newNodes.length).fill(-1)
+
+  newNodes.forEach((node, i) => {
+    let source = oldIndex.get(node)
+    if (source === undefined && nodeKey(node) !== undefined) {
+      source = oldByKey.get(nodeKey(node))
+      if (source !== undefined && !canReuse(oldNodes[source], node))
+        source = undefined
+    }
+    if (source !== undefined && !claimed[source]) {
+      claimed[source] = true
+      sources[i] = source
+    }
+  })
+
+  let next = 0
+  newNodes.forEach((node, i) => {
+    if (sources[i] !== -1 || nodeKey(node) !== undefined) return
+    while (
+      next < oldNodes.length &&
+      (claimed[next] || nodeKey(oldNodes[next]) !== undefined)
+    ) {
+      next++
+    }
+    if (next < oldNodes.length && canReuse(oldNodes[next], node)) {
+      claimed[next] = true
+      sources[i] = next
+    }
+    next++
+  })
+
+  oldNodes.forEach((node, i) => {
+    if (!claimed[i]) parent.removeChild(node)
+  })
+
+  const resultNodes = newNodes.map((node, i) => {
+    const source = sources[i]
+    if (source === -1) {
+      placeKept(node)
+      return node
+    }
+    const oldNode = oldNodes[source]
+    if (oldNode !== node) patchNode(oldNode, node)
+    return oldNode
+  })
+
+  const stable = longestIncreasingSubsequence(sources)
+  let before = anchor
+  for (let i = resultNodes.length - 1; i >= 0; i--) {
+    const node = resultNodes[i]
+    if (!stable.has(i)) {
+      parent.insertBefore(node, before)
+    }
+    before = node
+  }
 
-    if (typeof app === 'function') {
-        app = { type: app, props: {}, children: [], key: undefined }
+  return resultNodes
+}
+
+// Positions of a longest increasing run of values in sources, skipping -1
+function longestIncreasingSubsequence(sources: number[]): Set<number> {
+  // tails[n]: position ending the smallest-valued increasing run of length n + 1
+  const tails: number[] = []
+  const previous = new Array<number>(sources.length)
+
+  for (let i = 0; i < sources.length; i++) {
+    const value = sources[i]
+    if (value === -1) continue
+
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (sources[tails[mid]] < value) {
+        low = mid + 1
+      } else {
+        high = mid
+      }
     }
+    previous[i] = low > 0 ? tails[low - 1] : -1
+    tails[low] = i
+  }
+
+  const result = new Set<number>()
+  let position = tails.length ? tails[tails.length - 1] : -1
+  while (position !== -1) {
+    result.add(position)
+    position = previous[position]
+  }
+  return result
+}
 
-    renderNode(app, container)
+/**
+ * Render the output of a component the renderer doesn't own (a hydrated
+ * one). Its components are kept in a registry of the owner, so they keep
+ * their state across its renders; those it no longer renders are disposed.
+ */
+export function renderOwned(
+  result: FNodeChild,
+  parent: HTMLElement,
+  owner: object
+): Node | Node[] | null {
+  const previous = ownedChildren.get(owner)
+  const rendered = new Set<DOMComponentInstance>()
+  ownedChildren.set(owner, rendered)
+  autoKeyCounts.delete(owner)
+
+  const previousOwnedChildren = currentOwnedChildren
+  const previousRenderingInstance = currentRenderingInstance
+  currentOwnedChildren = rendered
+  currentRenderingInstance = null
+  let nodes: Node | Node[] | null
+  try {
+    nodes = renderNode(result, parent, owner as HTMLElement)
+  } finally {
+    currentOwnedChildren = previousOwnedChildren
+    currentRenderingInstance = previousRenderingInstance
+  }
+
+  previous?.forEach((child) => {
+    if (!rendered.has(child)) disposeComponentInstance(child)
+  })
+  return nodes
+}
 
-    // Return dispose function
-    return () => {
-        // Remove all component instances registered under this container
-        if (instanceRegistry.has(container)) {
-            const registry = instanceRegistry.get(container)!
-            registry.forEach(instance => {
-                removeComponentInstance(instance)
-            })
-            registry.clear()
-            instanceRegistry.delete(container)
-        }
-        // Clear container
-        container.innerHTML = ''
+export function reconcile(
+  oldNodes: Node[],
+  newNodes: Node[],
+  parent: Node,
+  beforeMarker: Node
+): Node[] {
+  return patchList(oldNodes, newNodes, parent, beforeMarker)
+}
+
+export function render(
+  app: FNodeChild | (() => FNodeChild),
+  container: HTMLElement
+): () => void {
+  container.innerHTML = ''
+
+  if (typeof app === 'function') {
+    app = { type: app, props: {}, children: [], key: undefined }
+  }
+
+  // Root scope owns every component instance rendered below. A render
+  // started by a component (e.g. a portal) is a new root, not its child.
+  const scope = effectScope()
+  const previousRenderingInstance = currentRenderingInstance
+  const previousOwnedChildren = currentOwnedChildren
+  currentRenderingInstance = null
+  currentOwnedChildren = undefined
+  autoKeyCounts.delete(container)
+  try {
+    collectRendered(() => scope.run(() => renderNode(app, container)))
+  } finally {
+    currentRenderingInstance = previousRenderingInstance
+    currentOwnedChildren = previousOwnedChildren
+  }
+
+  const stopDelegation = delegateEvents(container)
+  // Events in a render started by a component (e.g. a portal) bubble on
+  // from where that component is, unless the container is inside it anyway
+  const owner = getOwner() as DOMComponentInstance | null
+  if (owner?.nodes) {
+    setLogicalParent(container, () =>
+      owner.nodes.length &&
+      !owner.nodes.some((node) => node.contains(container))
+        ? owner.nodes[0]
+        : container.parentNode
+    )
+  }
+
+  // Return dispose function
+  return () => {
+    scope.stop()
+    stopDelegation()
+    setLogicalParent(container, undefined)
+
+    // Remove all component instances registered under this container
+    const registry = instanceRegistry.get(container)
+    if (registry) {
+      registry.forEach((instance) => {
+        removeComponentInstance(instance)
+      })
+      registry.clear()
+      instanceRegistry.delete(container)
     }
+    // Clear container
+    container.innerHTML = ''
+  }
 }
@@ -1,4 +1,12 @@
-export type FNodeChild = FNode | string | number | boolean | null | undefined | FNodeChild[] | (() => FNode)
+export type FNodeChild =
+  | FNode
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | FNodeChild[]
+  | (() => FNodeChild)
 
 export interface FNode {
     type: string | Function
@@ -6,3 +14,19 @@ export interface FNode {
     children: FNodeChild[]
     key?: any
 }
+
+/**
+ * Fields the renderers read off function components
+ * @internal
+ */
+export interface ComponentMarkers {
+  /** Context a Provider provides */
+  _contextId?: symbol
+  /** Marks Portal, rendered into its target */
+  _portal?: boolean
+  /** Skip re-rendering a kept component for props it considers equal */
+  _arePropsEqual?: (
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>
+  ) => boolean
+}
@@ -1,7 +1,14 @@
 import type { FNode, FNodeChild } from './dom/types'
 
+export { Fragment } from './dom/components/Fragment'
+
 export function jsx(type: any, props: any, key?: any): FNode {
     const { children, ...otherProps } = props || {}
+    // A function key is a key selector for the component, e.g. <For key={fn}>
+    if (typeof key === 'function') {
+        otherProps.key = key
+        key = undefined
+    }
     return {
         type,
         props: otherProps,
@@ -19,10 +26,6 @@ export function jsxDEV(type: any, props: any, key?: any): FNode {
     return jsx(type, props, key)
 }
 
-export function Fragment(props: any): FNodeChild {
-    return props.children
-}
-
 export namespace JSX {
     export interface IntrinsicElements {
         [elemName: string]: any
@@ -1,4 +1,4 @@
-import type { FNode, FNodeChild } from '../dom/types'
+import type { ComponentMarkers, FNode, FNodeChild } from '../dom/types'
 import type { SSROptions, SSRResult } from './types'
 import { escapeHtml, escapeAttribute } from './escape'
 import {
@@ -7,7 +7,12 @@ import {
   generateHydrationId
 } from './serverState'
 import { runWithComponent, ComponentInstance } from '../core/hook'
-import { pushContext, popContext } from '../core/context'
+import {
+  getOwner,
+  provideContext,
+  runWithOwner,
+  type ContextOwner,
+} from '../core/context'
 
 // Self-closing HTML tags
 const VOID_ELEMENTS = new Set([
@@ -100,6 +105,12 @@ function renderNodeToString(fnode: FNodeChild, includeHydrationMarkers: boolean)
       return renderElementToString(fnode, includeHydrationMarkers)
     }
 
+    // Portal: its target is only known in the browser, which renders it
+    // while hydrating
+    if ((fnode.type as ComponentMarkers)._portal) {
+      return ''
+    }
+
     // Function component
     if (typeof fnode.type === 'function') {
       return renderComponentToString(fnode, includeHydrationMarkers)
@@ -143,11 +154,20 @@ function renderAttributes(props: Record<string, any>, includeHydrationMarkers: b
     parts.push(`data-fid="${fid}"`)
   }
 
-  for (const [key, value] of Object.entries(props)) {
+  for (const [key, prop] of Object.entries<unknown>(props)) {
     // Skip event handlers, refs, and internal props
-    if (key.startsWith('on') || key === 'ref' || key === 'key' || key === 'children') continue
+    if (
+      key.startsWith('on') ||
+      key === 'ref' ||
+      key === 'key' ||
+      key === 'children'
+    )
+      continue
     if (key === 'dangerouslySetInnerHTML') continue
 
+    // Reactive props render their current value
+    const value = typeof prop === 'function' ? (prop as () => unknown)() : prop
+
     // Skip undefined/null values
     if (value === undefined || value === null) continue
 
@@ -158,7 +178,7 @@ function renderAttributes(props: Record<string, any>, includeHydrationMarkers: b
     if (key === 'style' && typeof value === 'object') {
       const styleStr = Object.entries(value)
         .filter(([, v]) => v !== null && v !== undefined)
-        .map(([k, v]) => `${kebabCase(k)}:${v}`)
+        .map(([k, v]) => `${kebabCase(k)}:${String(v)}`)
         .join(';')
       if (styleStr) {
         parts.push(`style="${escapeAttribute(styleStr)}"`)
@@ -183,43 +203,38 @@ function renderAttributes(props: Record<string, any>, includeHydrationMarkers: b
 }
 
 function renderComponentToString(fnode: FNode, includeHydrationMarkers: boolean): string {
-  const Component = fnode.type as Function
+  const Component = fnode.type as ((
+    props: Record<string, unknown>
+  ) => FNodeChild) &
+    ComponentMarkers
 
   // Merge props with children
-  const props = { ...fnode.props }
+  const props: Record<string, unknown> = { ...fnode.props }
   if (fnode.children && fnode.children.length > 0) {
     props.children = fnode.children.length === 1
       ? fnode.children[0]
       : fnode.children
   }
 
-  // Check if this is a Context Provider
-  const contextId = (Component as any)._contextId
-  const isProvider = contextId !== undefined
-  let prevContextValue: any
-
-  if (isProvider) {
-    prevContextValue = pushContext(contextId, props.value)
+  // Create minimal component instance for server (hooks and context support)
+  const instance: ComponentInstance & ContextOwner = {
+    hooks: [],
+    hookIndex: 0,
+    parentInstance: getOwner() || undefined,
   }
 
-  // Create minimal component instance for server (hooks support)
-  const instance: ComponentInstance = {
-    hooks: [],
-    hookIndex: 0
+  const contextId = Component._contextId
+  if (contextId !== undefined) {
+    provideContext(instance, contextId, props.value)
   }
 
-  try {
+  return runWithOwner(instance, () => {
     // Run component with hook context
     const result = runWithComponent(instance, () => Component(props))
 
     // Render result
     return renderNodeToString(result, includeHydrationMarkers)
-  } finally {
-    // Restore context if it was a provider
-    if (isProvider) {
-      popContext(contextId, prevContextValue)
-    }
-  }
+  })
 }
 
 function kebabCase(str: string): string {